@@ -0,0 +1,52 @@
+/**
+ * Animated GIF/WebP handling options
+ * Shared by the server converter, which keeps every frame, and the client,
+ * which can only draw the first frame to a canvas
+ */
+
+import type { ConversionMethod, ConversionOptions, ImageFormat } from './types';
+import { supportsAnimation } from './formats';
+
+/**
+ * Options that only apply to animated input or output
+ */
+export type AnimationOptions = Pick<
+  ConversionOptions,
+  'animated' | 'loop' | 'delay' | 'extractFrames'
+>;
+
+/**
+ * Check whether a conversion keeps all frames
+ * Animated input stays animated unless disabled or the output cannot animate
+ */
+export function shouldAnimate(
+  frames: number,
+  outputFormat: ImageFormat,
+  animated: boolean | undefined,
+): boolean {
+  return frames > 1 && animated !== false && supportsAnimation(outputFormat);
+}
+
+/**
+ * Get the total duration of an animation in ms
+ * Returns undefined if the image has no frame delays
+ */
+export function getAnimationDuration(delay: number[] | undefined): number | undefined {
+  if (!delay || delay.length === 0) {
+    return undefined;
+  }
+
+  return delay.reduce((total, frameDelay) => total + frameDelay, 0);
+}
+
+/**
+ * Get where animation options can be honoured
+ * Anything beyond converting the first frame needs Sharp
+ */
+export function getAnimationConversionMethod(options: AnimationOptions): ConversionMethod {
+  const { animated, loop, delay, extractFrames } = options;
+
+  return animated || extractFrames || loop !== undefined || delay !== undefined
+    ? 'server'
+    : 'client';
+}
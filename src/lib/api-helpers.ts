@@ -0,0 +1,1154 @@
+/**
+ * Shared helpers for API route handlers
+ */
+
+import type {
+  ConversionOptions,
+  ConversionResult,
+  ConverterLimits,
+  CropRegion,
+  DocumentFormat,
+  ExtendPadding,
+  FileFormat,
+  ImageFormat,
+  ImageMetadata,
+  MetadataOption,
+  PdfFont,
+  PdfImageFit,
+  PdfOptions,
+  PdfOrientation,
+  PdfPageSize,
+  QualityOption,
+  Recipe,
+  ImageTransforms,
+  ResizeFit,
+  ResizePosition,
+  ResponsiveOptions,
+  TextPdfOptions,
+  ValidationResult,
+  WatermarkOptions,
+} from './types';
+import { ErrorCode } from './types';
+import {
+  validateBuffer,
+  validateImagePixels,
+  validateConversion,
+  validateCropBounds,
+  validateExtendBounds,
+  validateRecipeSize,
+  validateConversionParameters,
+  validateDeclaredFormat,
+  sanitizeSvg,
+  validateDocumentContent,
+  validatePdfOptions,
+  validatePdfRenderOptions,
+  validateTextPdfOptions,
+  validateTransparency,
+} from './validator';
+import { imagesToPdf, loadPdfFont } from './pdf-converter';
+import { getPdfPageCount, renderPdfPages } from './pdf-rasterizer';
+import {
+  convertImageServer,
+  convertToBestFormat,
+  extractFramesServer,
+  extractMetadata,
+} from './server-converter';
+import { createZipStream } from './archive';
+import type { ArchiveEntry } from './archive';
+import { textToPdf } from './text-pdf';
+import {
+  createApiError,
+  generateOutputFilename,
+  getHttpStatusFromErrorCode,
+  parseFormField,
+  parseNumericField,
+  parseBooleanField,
+  parseJsonField,
+  parseListField,
+  parseFileSize,
+  detectMimeTypeFromBuffer,
+  parsePageRange,
+  sanitizeFilename,
+} from './utils';
+import { getBase64Payload, getRecipeFormat, planResize, planRotation } from './recipe';
+import { getLimits } from './config';
+import {
+  getAutoFormatCandidates,
+  getFormatFromMime,
+  getMimeType,
+  normalizeFormat,
+  DEFAULT_SVG_DENSITY,
+  DEFAULT_RESPONSIVE_FORMATS,
+  DEFAULT_RESPONSIVE_WIDTHS,
+  MAX_EXTRACTED_FRAMES,
+} from './formats';
+
+/**
+ * Parsed and validated conversion request
+ */
+export interface ParsedConversionRequest {
+  file: File;
+  buffer: Buffer;
+  inputFormat: ImageFormat;
+  options: ConversionOptions;
+  warnings: string[]; // From reading the upload, e.g. a corrected file type
+}
+
+/**
+ * Result of parsing a conversion request
+ * On failure, `response` holds the error response to return
+ */
+export type ParseConversionResult =
+  | { success: true; request: ParsedConversionRequest }
+  | { success: false; response: Response };
+
+/**
+ * Result of parsing conversion options
+ */
+export type ParseOptionsResult =
+  | { success: true; options: ConversionOptions }
+  | { success: false; response: Response };
+
+/**
+ * Result of reading an uploaded file
+ */
+export type ReadUploadResult =
+  | { success: true; buffer: Buffer; inputFormat: ImageFormat; warnings: string[] }
+  | { success: false; validation: ValidationResult };
+
+/**
+ * Create JSON response
+ */
+export function jsonResponse(
+  body: unknown,
+  status: number = 200,
+  headers?: Record<string, string>,
+): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+/**
+ * Create JSON error response
+ */
+export function errorResponse(
+  error: string,
+  message: string,
+  code: ErrorCode,
+  details?: Record<string, any>,
+): Response {
+  return jsonResponse(
+    createApiError(error, message, code, details),
+    getHttpStatusFromErrorCode(code),
+  );
+}
+
+/**
+ * Create JSON error response from a failed validation
+ */
+export function validationErrorResponse(
+  validation: ValidationResult,
+  fallbackError: string,
+  fallbackMessage: string,
+): Response {
+  return errorResponse(
+    validation.error || fallbackError,
+    validation.error || fallbackMessage,
+    validation.code as ErrorCode,
+    validation.details,
+  );
+}
+
+/**
+ * Response headers describing a converted image
+ * Reports animation frames, and the quality (and SSIM) picked by a quality search
+ */
+export function getConversionHeaders(
+  metadata: ImageMetadata | undefined,
+): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  if (metadata?.frames && metadata.frames > 1) {
+    headers['X-Frame-Count'] = metadata.frames.toString();
+
+    if (metadata.duration !== undefined) {
+      headers['X-Animation-Duration'] = metadata.duration.toString();
+    }
+  }
+
+  if (metadata?.quality !== undefined) {
+    headers['X-Quality'] = metadata.quality.toString();
+  }
+
+  if (metadata?.ssim !== undefined) {
+    headers['X-SSIM'] = metadata.ssim.toString();
+  }
+
+  return headers;
+}
+
+/**
+ * Response headers reporting the detected input format and any warnings
+ * Each warning is URI-encoded (headers are ASCII-only), then joined with ", "
+ */
+export function getWarningHeaders(
+  inputFormat: FileFormat,
+  warnings: string[] = [],
+): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-Detected-Format': inputFormat,
+    'X-Conversion-Warnings': warnings.length.toString(),
+  };
+
+  if (warnings.length > 0) {
+    headers['X-Conversion-Warning'] = warnings.map(encodeURIComponent).join(', ');
+  }
+
+  return headers;
+}
+
+/**
+ * Extract conversion options from multipart form data
+ * Returns null if the output format is missing
+ */
+export function extractConversionOptions(
+  formData: FormData,
+  defaultQuality: number = getLimits().defaultQuality,
+): ConversionOptions | null {
+  // Extract parameters
+  const outputFormatRaw = parseFormField(
+    formData.get('outputFormat') as string | null,
+  );
+  const qualityField = formData.get('quality') as string | null;
+  const quality: QualityOption | undefined =
+    qualityField?.trim().toLowerCase() === 'auto'
+      ? 'auto'
+      : parseNumericField(qualityField, defaultQuality);
+  const minSsim = parseNumericField(formData.get('minSsim') as string | null);
+  const width = parseNumericField(formData.get('width') as string | null);
+  const height = parseNumericField(formData.get('height') as string | null);
+  const maintainAspect = parseBooleanField(
+    formData.get('maintainAspect') as string | null,
+    true,
+  );
+  // An explicit fit overrides maintainAspect (checked in validateConversionOptions)
+  const fit = parseFormField(formData.get('fit') as string | null) as ResizeFit | undefined;
+  // A gravity, strategy, or JSON focal point such as {"x":0.3,"y":0.6}
+  const position = parseJsonField(formData.get('position') as string | null) as
+    | ResizePosition
+    | undefined;
+  // JSON objects such as {"left":0,"top":0,"width":100,"height":100} (checked in validateConversionOptions)
+  const crop = parseJsonField(formData.get('crop') as string | null) as CropRegion | undefined;
+  const extend = parseJsonField(formData.get('extend') as string | null) as
+    | ExtendPadding
+    | undefined;
+  const background = parseFormField(formData.get('background') as string | null);
+  // DPI for SVG input (checked in validateConversionOptions)
+  const density = parseNumericField(formData.get('density') as string | null);
+  // JSON object such as {"text":"© Me","position":"southeast","opacity":0.5}; images are base64
+  const watermark = parseJsonField(formData.get('watermark') as string | null) as
+    | WatermarkOptions
+    | undefined;
+  const transforms: ImageTransforms = {
+    rotate: parseNumericField(formData.get('rotate') as string | null),
+    flip: parseBooleanField(formData.get('flip') as string | null),
+    flop: parseBooleanField(formData.get('flop') as string | null),
+    grayscale: parseBooleanField(formData.get('grayscale') as string | null),
+    blur: parseNumericField(formData.get('blur') as string | null),
+    sharpen: parseBooleanField(formData.get('sharpen') as string | null),
+  };
+
+  // Recipe is checked against the schema in validateConversionOptions
+  const recipe = parseJsonField(formData.get('recipe') as string | null) as
+    | Recipe
+    | undefined;
+
+  // A mode such as "keep", or a JSON object of fields (checked in validateConversionOptions)
+  const metadata = parseJsonField(formData.get('metadata') as string | null) as
+    | MetadataOption
+    | undefined;
+
+  // Animation options; `animated` is only set when sent so animated input stays animated by default
+  const animatedField = parseFormField(formData.get('animated') as string | null);
+  const animation = {
+    animated: animatedField ? parseBooleanField(animatedField) : undefined,
+    loop: parseNumericField(formData.get('loop') as string | null),
+    // One delay for all frames, or a JSON array with one per frame
+    delay: parseJsonField(formData.get('delay') as string | null) as
+      | number
+      | number[]
+      | undefined,
+    extractFrames: parseBooleanField(formData.get('extractFrames') as string | null),
+  };
+
+  // Size budget such as "200KB" or a byte count (checked in validateConversionOptions)
+  const targetSizeField = parseFormField(formData.get('targetSize') as string | null);
+  const targetSize = targetSizeField ? parseFileSize(targetSizeField) : undefined;
+  const resizeToTarget = parseBooleanField(formData.get('resizeToTarget') as string | null);
+
+  // A format operation in the recipe overrides outputFormat
+  const recipeFormat = getRecipeFormat(recipe);
+
+  if (!outputFormatRaw && !recipeFormat) {
+    return null;
+  }
+
+  return {
+    outputFormat: recipeFormat?.format || normalizeFormat(outputFormatRaw!),
+    quality: recipeFormat?.quality ?? quality,
+    minSsim,
+    width,
+    height,
+    fit: fit || (maintainAspect ? 'inside' : 'fill'),
+    position,
+    crop,
+    extend,
+    background,
+    density,
+    watermark,
+    ...transforms,
+    recipe,
+    metadata,
+    ...animation,
+    targetSize,
+    resizeToTarget,
+  };
+}
+
+/**
+ * Extract responsive image set options from form data
+ * Widths and formats are comma-separated lists or JSON arrays
+ */
+export function extractResponsiveOptions(
+  formData: FormData,
+  defaultQuality: number = getLimits().defaultQuality,
+): ResponsiveOptions {
+  const widths = parseListField(formData.get('widths') as string | null);
+  const formats = parseListField(formData.get('formats') as string | null);
+  const qualityField = formData.get('quality') as string | null;
+
+  return {
+    widths: widths ? widths.map(Number) : DEFAULT_RESPONSIVE_WIDTHS,
+    formats: formats ? formats.map(normalizeFormat) : DEFAULT_RESPONSIVE_FORMATS,
+    quality:
+      qualityField?.trim().toLowerCase() === 'auto'
+        ? 'auto'
+        : parseNumericField(qualityField, defaultQuality),
+    sizes: parseFormField(formData.get('sizes') as string | null),
+    alt: parseFormField(formData.get('alt') as string | null),
+  };
+}
+
+/**
+ * Validate conversion options against an input format
+ */
+export function validateConversionOptions(
+  inputFormat: FileFormat,
+  options: ConversionOptions,
+  limits: ConverterLimits = getLimits(),
+): ValidationResult {
+  return validateConversionParameters({ inputFormat, ...options }, limits);
+}
+
+/**
+ * Check that an SVG fits the pixel budget at its density, that a crop region
+ * fits inside the uploaded image, and that neither padding nor a recipe step
+ * outgrows the limits
+ */
+export async function validateSourceBounds(
+  buffer: Buffer,
+  options: ConversionOptions,
+  limits: ConverterLimits,
+): Promise<ValidationResult> {
+  // SVG is rasterized at its density, which may take it over the pixel budget
+  if (options.density) {
+    const pixelsValidation = validateImagePixels(buffer, {
+      maxPixels: limits.maxInputPixels,
+      maxDimension: limits.maxInputDimension,
+      density: options.density,
+    });
+    if (!pixelsValidation.valid) {
+      return pixelsValidation;
+    }
+  }
+
+  if (!options.crop && !options.extend && !options.recipe) {
+    return { valid: true };
+  }
+
+  // SVG is cropped and transformed after rasterizing at its density
+  const scale = (options.density || DEFAULT_SVG_DENSITY) / DEFAULT_SVG_DENSITY;
+  const metadata = await extractMetadata(buffer);
+  const width = Math.round(metadata.width * scale);
+  const height = Math.round(metadata.height * scale);
+
+  if (options.crop) {
+    const cropValidation = validateCropBounds(options.crop, width, height);
+    if (!cropValidation.valid) {
+      return cropValidation;
+    }
+  }
+
+  if (options.extend) {
+    // Padding is added after the crop, rotation and resize
+    let size: { width: number; height: number } = options.crop || { width, height };
+    if (options.rotate) {
+      size = planRotation(size.width, size.height, options.rotate);
+    }
+    if (options.width || options.height) {
+      size = planResize(size.width, size.height, {
+        op: 'resize',
+        width: options.width,
+        height: options.height,
+        fit: options.fit,
+        position: options.position,
+      });
+    }
+
+    const extendValidation = validateExtendBounds(
+      options.extend,
+      size.width,
+      size.height,
+      limits.maxDimension,
+    );
+    if (!extendValidation.valid) {
+      return extendValidation;
+    }
+  }
+
+  if (options.recipe) {
+    // Composite overlays are decoded too, so they share the upload's pixel budget
+    for (const operation of options.recipe) {
+      if (operation.op !== 'composite') {
+        continue;
+      }
+
+      const overlayValidation = validateImagePixels(
+        Buffer.from(getBase64Payload(operation.image), 'base64'),
+        { maxPixels: limits.maxInputPixels, maxDimension: limits.maxInputDimension },
+      );
+      if (!overlayValidation.valid) {
+        return overlayValidation;
+      }
+    }
+
+    return validateRecipeSize(options.recipe, width, height, {
+      maxDimension: limits.maxDimension,
+      maxPixels: limits.maxInputPixels,
+    });
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Read an uploaded file and validate its content against the limits
+ */
+export async function readUploadedFile(
+  file: File,
+  strictFormat: boolean = false,
+  limits: ConverterLimits = getLimits(),
+): Promise<ReadUploadResult> {
+  // Convert File to Buffer
+  const arrayBuffer = await file.arrayBuffer();
+  const buffer = Buffer.from(arrayBuffer);
+
+  // Validate size and content; the declared type is only cross-checked below
+  const bufferValidation = await validateBuffer(buffer, file.type, {
+    maxSize: limits.maxFileSize,
+    allowedTypes: limits.allowedMimeTypes,
+    checkMimeType: false,
+  });
+  if (!bufferValidation.valid) {
+    return { success: false, validation: bufferValidation };
+  }
+
+  // Detect input format from the content (validateBuffer accepted it as an image)
+  const inputFormat = getFormatFromMime(detectMimeTypeFromBuffer(buffer)!)!;
+
+  const declaredValidation = validateDeclaredFormat(
+    inputFormat,
+    { mimeType: file.type, filename: file.name },
+    strictFormat,
+  );
+  if (!declaredValidation.valid) {
+    return { success: false, validation: declaredValidation };
+  }
+
+  // Reject images too large to decode from their headers, before Sharp sees them
+  const pixelsValidation = validateImagePixels(buffer, {
+    maxPixels: limits.maxInputPixels,
+    maxDimension: limits.maxInputDimension,
+  });
+  if (!pixelsValidation.valid) {
+    return { success: false, validation: pixelsValidation };
+  }
+
+  const warning = declaredValidation.details?.warning as string | undefined;
+  const warnings = warning ? [warning] : [];
+
+  // SVG is rendered from sanitized markup only
+  if (inputFormat === 'svg') {
+    const sanitized = sanitizeSvg(buffer.toString('utf-8'));
+    if (sanitized.removed.length > 0) {
+      warnings.push(`Removed unsafe SVG content: ${sanitized.removed.join(', ')}`);
+    }
+    return { success: true, buffer: Buffer.from(sanitized.svg), inputFormat, warnings };
+  }
+
+  return { success: true, buffer, inputFormat, warnings };
+}
+
+/**
+ * Parse and validate conversion options from multipart form data
+ */
+export function parseConversionOptions(
+  formData: FormData,
+  inputFormat: ImageFormat,
+  limits: ConverterLimits = getLimits(),
+): ParseOptionsResult {
+  const options = extractConversionOptions(formData, limits.defaultQuality);
+
+  // Validate output format
+  if (!options) {
+    return {
+      success: false,
+      response: errorResponse(
+        'Missing output format',
+        'Output format parameter is required',
+        ErrorCode.MISSING_PARAMETER,
+      ),
+    };
+  }
+
+  // Validate conversion parameters
+  const paramsValidation = validateConversionOptions(inputFormat, options, limits);
+
+  if (!paramsValidation.valid) {
+    return {
+      success: false,
+      response: validationErrorResponse(
+        paramsValidation,
+        'Invalid parameters',
+        'Conversion parameters validation failed',
+      ),
+    };
+  }
+
+  return { success: true, options };
+}
+
+/**
+ * Parse and validate a single-file conversion request
+ */
+export async function parseConversionRequest(
+  formData: FormData,
+  limits: ConverterLimits = getLimits(),
+): Promise<ParseConversionResult> {
+  // Extract file
+  const file = formData.get('file') as File | null;
+  if (!file) {
+    return {
+      success: false,
+      response: errorResponse(
+        'Missing file',
+        'No file was provided in the request',
+        ErrorCode.MISSING_PARAMETER,
+      ),
+    };
+  }
+
+  // Content decides the format; strictFormat rejects a mismatched declared type instead
+  const upload = await readUploadedFile(
+    file,
+    parseBooleanField(formData.get('strictFormat') as string | null),
+    limits,
+  );
+  if (!upload.success) {
+    return {
+      success: false,
+      response: validationErrorResponse(
+        upload.validation,
+        'Validation failed',
+        'File validation failed',
+      ),
+    };
+  }
+
+  const parsedOptions = parseConversionOptions(formData, upload.inputFormat, limits);
+  if (!parsedOptions.success) {
+    return parsedOptions;
+  }
+
+  const boundsValidation = await validateSourceBounds(
+    upload.buffer,
+    parsedOptions.options,
+    limits,
+  );
+  if (!boundsValidation.valid) {
+    return {
+      success: false,
+      response: validationErrorResponse(
+        boundsValidation,
+        'Invalid parameters',
+        'Source bounds validation failed',
+      ),
+    };
+  }
+
+  return {
+    success: true,
+    request: {
+      file,
+      buffer: upload.buffer,
+      inputFormat: upload.inputFormat,
+      options: parsedOptions.options,
+      warnings: upload.warnings,
+    },
+  };
+}
+
+/**
+ * Build the response for a converted image
+ */
+export function createImageResponse(
+  file: File,
+  result: ConversionResult,
+  inputFormat: ImageFormat,
+  outputFormat: ImageFormat,
+  headers: Record<string, string> = {},
+): Response {
+  const convertedBuffer =
+    result.data instanceof Buffer ? result.data : Buffer.from(result.data as ArrayBuffer);
+
+  return new Response(new Uint8Array(convertedBuffer), {
+    status: 200,
+    headers: {
+      'Content-Type': getMimeType(outputFormat),
+      'Content-Disposition': `attachment; filename="${generateOutputFilename(file.name, outputFormat)}"`,
+      'Content-Length': convertedBuffer.length.toString(),
+      'X-Original-Size': file.size.toString(),
+      'X-Converted-Size': convertedBuffer.length.toString(),
+      'X-Compression-Ratio': ((1 - convertedBuffer.length / file.size) * 100).toFixed(2),
+      ...getWarningHeaders(inputFormat, result.warnings),
+      ...getConversionHeaders(result.metadata),
+      ...headers,
+    },
+  });
+}
+
+/**
+ * Convert to every acceptable format and return the smallest (outputFormat=auto)
+ * Candidates come from the conversion matrix, narrowed by the Accept header
+ */
+export async function createBestFormatResponse(
+  formData: FormData,
+  accept: string | null,
+  limits: ConverterLimits = getLimits(),
+): Promise<Response> {
+  const file = formData.get('file');
+  if (!file || typeof file === 'string') {
+    return errorResponse(
+      'Missing file',
+      'No file was provided in the request',
+      ErrorCode.MISSING_PARAMETER,
+    );
+  }
+
+  const upload = await readUploadedFile(
+    file,
+    parseBooleanField(formData.get('strictFormat') as string | null),
+    limits,
+  );
+  if (!upload.success) {
+    return validationErrorResponse(
+      upload.validation,
+      'Validation failed',
+      'File validation failed',
+    );
+  }
+
+  const options = extractConversionOptions(formData, limits.defaultQuality)!;
+
+  // A format operation would force every candidate to the same format
+  if (getRecipeFormat(options.recipe)) {
+    return errorResponse(
+      'Invalid parameters',
+      'outputFormat=auto cannot be combined with a recipe format operation',
+      ErrorCode.INVALID_RECIPE,
+    );
+  }
+
+  // Options are checked per format; formats they do not apply to are skipped
+  const candidates: ImageFormat[] = [];
+  let firstFailure: ValidationResult | undefined;
+
+  for (const format of getAutoFormatCandidates(upload.inputFormat, accept)) {
+    const validation = validateConversionOptions(
+      upload.inputFormat,
+      { ...options, outputFormat: format },
+      limits,
+    );
+
+    if (validation.valid) {
+      candidates.push(format);
+    } else {
+      firstFailure ??= validation;
+    }
+  }
+
+  if (candidates.length === 0) {
+    return firstFailure
+      ? validationErrorResponse(
+          firstFailure,
+          'Invalid parameters',
+          'Conversion parameters validation failed',
+        )
+      : errorResponse(
+          'No acceptable format',
+          'None of the output formats for this file are allowed by the Accept header',
+          ErrorCode.UNSUPPORTED_FORMAT,
+          { accept },
+        );
+  }
+
+  const boundsValidation = await validateSourceBounds(upload.buffer, options, limits);
+  if (!boundsValidation.valid) {
+    return validationErrorResponse(
+      boundsValidation,
+      'Invalid parameters',
+      'Source bounds validation failed',
+    );
+  }
+
+  const result = await convertToBestFormat(upload.buffer, options, candidates, limits);
+
+  if (!result.success || !result.data || !result.metadata) {
+    return errorResponse(
+      'Conversion failed',
+      result.error || 'Failed to convert image',
+      ErrorCode.CONVERSION_FAILED,
+      { candidates: result.candidates },
+    );
+  }
+
+  const outputFormat = result.metadata.format as ImageFormat;
+
+  const warnings = [...upload.warnings, ...(result.warnings || [])];
+
+  return createImageResponse(file, { ...result, warnings }, upload.inputFormat, outputFormat, {
+    'X-Output-Format': outputFormat,
+    'X-Format-Candidates': result.candidates
+      .map(({ format, size }) => `${format}=${size ?? 'failed'}`)
+      .join(', '),
+    Vary: 'Accept',
+  });
+}
+
+/**
+ * Extract image-to-PDF options from multipart form data
+ */
+export function extractPdfOptions(formData: FormData): PdfOptions {
+  return {
+    pageSize: parseFormField(formData.get('pageSize') as string | null)?.toLowerCase() as
+      | PdfPageSize
+      | undefined,
+    orientation: parseFormField(formData.get('orientation') as string | null) as
+      | PdfOrientation
+      | undefined,
+    margin: parseNumericField(formData.get('margin') as string | null),
+    fit: parseFormField(formData.get('fit') as string | null) as PdfImageFit | undefined,
+    title: parseFormField(formData.get('title') as string | null),
+  };
+}
+
+/**
+ * Extract text-to-PDF options from multipart form data
+ */
+export function extractTextPdfOptions(formData: FormData): TextPdfOptions {
+  const { fit, ...pageOptions } = extractPdfOptions(formData);
+
+  return {
+    ...pageOptions,
+    font: parseFormField(formData.get('font') as string | null)?.toLowerCase() as
+      | PdfFont
+      | undefined,
+    fontSize: parseNumericField(formData.get('fontSize') as string | null),
+    lineHeight: parseNumericField(formData.get('lineHeight') as string | null),
+  };
+}
+
+/**
+ * Convert uploaded images into a single PDF and build the response
+ * Any invalid file rejects the whole request so pages are never silently dropped
+ */
+export async function createPdfResponse(
+  files: File[],
+  formData: FormData,
+  limits: ConverterLimits = getLimits(),
+): Promise<Response> {
+  const options = extractPdfOptions(formData);
+
+  const optionsValidation = validatePdfOptions(options);
+  if (!optionsValidation.valid) {
+    return validationErrorResponse(
+      optionsValidation,
+      'Invalid page options',
+      'PDF page options validation failed',
+    );
+  }
+
+  const buffers: Buffer[] = [];
+
+  for (const [index, file] of files.entries()) {
+    const upload = await readUploadedFile(
+      file,
+      parseBooleanField(formData.get('strictFormat') as string | null),
+      limits,
+    );
+    const validation = upload.success
+      ? validateConversion(upload.inputFormat, 'pdf')
+      : upload.validation;
+
+    if (!upload.success || !validation.valid) {
+      return validationErrorResponse(
+        {
+          ...validation,
+          details: { ...validation.details, file: file.name, index },
+        },
+        'Validation failed',
+        'File validation failed',
+      );
+    }
+
+    buffers.push(upload.buffer);
+  }
+
+  const result = await imagesToPdf(buffers, {
+    ...options,
+    title: options.title || files[0].name.replace(/\.[^/.]+$/, ''),
+  });
+
+  if (!result.success || !result.data) {
+    return errorResponse(
+      'Conversion failed',
+      result.error || 'Failed to create PDF',
+      ErrorCode.CONVERSION_FAILED,
+    );
+  }
+
+  const pdfBuffer = result.data as Buffer;
+  const originalSize = files.reduce((sum, file) => sum + file.size, 0);
+  const outputFilename = generateOutputFilename(files[0].name, 'pdf');
+
+  return new Response(new Uint8Array(pdfBuffer), {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${outputFilename}"`,
+      'Content-Length': pdfBuffer.length.toString(),
+      'X-Original-Size': originalSize.toString(),
+      'X-Converted-Size': pdfBuffer.length.toString(),
+      'X-Page-Count': String(result.metadata?.pages || files.length),
+    },
+  });
+}
+
+/**
+ * Render an uploaded text or Markdown file as a PDF and build the response
+ */
+export async function createTextPdfResponse(
+  file: File,
+  bytes: Uint8Array,
+  inputFormat: DocumentFormat,
+  formData: FormData,
+): Promise<Response> {
+  const options = extractTextPdfOptions(formData);
+
+  const optionsValidation = validateTextPdfOptions(options);
+  if (!optionsValidation.valid) {
+    return validationErrorResponse(
+      optionsValidation,
+      'Invalid page options',
+      'PDF page options validation failed',
+    );
+  }
+
+  const result = await textToPdf(new TextDecoder().decode(bytes), {
+    ...options,
+    markdown: inputFormat === 'md',
+    fontData: await loadPdfFont(),
+    title: options.title || file.name.replace(/\.[^/.]+$/, ''),
+  });
+
+  if (!result.success || !result.data) {
+    return errorResponse(
+      'Conversion failed',
+      result.error || 'Failed to create PDF',
+      ErrorCode.CONVERSION_FAILED,
+    );
+  }
+
+  const pdfBytes = new Uint8Array(result.data as ArrayBuffer);
+  const outputFilename = generateOutputFilename(file.name, 'pdf');
+
+  return new Response(pdfBytes, {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${outputFilename}"`,
+      'Content-Length': pdfBytes.length.toString(),
+      'X-Original-Size': file.size.toString(),
+      'X-Converted-Size': pdfBytes.length.toString(),
+      'X-Page-Count': String(result.metadata?.pages || 1),
+      ...getWarningHeaders(inputFormat, result.warnings),
+    },
+  });
+}
+
+/**
+ * Render pages of an uploaded PDF to images and build the response
+ * One page is returned as an image; several pages as a ZIP archive
+ */
+export async function createPdfRasterResponse(
+  file: File,
+  formData: FormData,
+  limits: ConverterLimits = getLimits(),
+): Promise<Response> {
+  const options = extractConversionOptions(formData, limits.defaultQuality);
+  if (!options) {
+    return errorResponse(
+      'Missing output format',
+      'Output format parameter is required',
+      ErrorCode.MISSING_PARAMETER,
+    );
+  }
+
+  const paramsValidation = validateConversionOptions('pdf', options, limits);
+  if (!paramsValidation.valid) {
+    return validationErrorResponse(
+      paramsValidation,
+      'Invalid parameters',
+      'Conversion parameters validation failed',
+    );
+  }
+
+  const buffer = Buffer.from(await file.arrayBuffer());
+  const contentValidation = validateDocumentContent(buffer, 'pdf', {
+    maxSize: limits.maxFileSize,
+  });
+  if (!contentValidation.valid) {
+    return validationErrorResponse(
+      contentValidation,
+      'Validation failed',
+      'File validation failed',
+    );
+  }
+
+  let pageCount: number;
+  try {
+    pageCount = await getPdfPageCount(buffer);
+  } catch (error) {
+    return errorResponse(
+      'Invalid PDF',
+      error instanceof Error ? error.message : 'The PDF could not be read',
+      ErrorCode.CORRUPTED_FILE,
+    );
+  }
+
+  // Page range such as "1-3,5"; all pages by default
+  const pagesField = parseFormField(formData.get('pages') as string | null);
+  const pages = pagesField ? parsePageRange(pagesField, pageCount) : undefined;
+  if (pages === null) {
+    return errorResponse(
+      'Invalid pages',
+      `Pages must be a range such as "1-3,5" within 1-${pageCount}`,
+      ErrorCode.INVALID_PAGE_OPTIONS,
+      { pages: pagesField, pageCount },
+    );
+  }
+
+  const renderOptions = {
+    pages: pages || Array.from({ length: pageCount }, (_, index) => index + 1),
+    dpi: parseNumericField(formData.get('dpi') as string | null),
+  };
+
+  const renderValidation = validatePdfRenderOptions(renderOptions);
+  if (!renderValidation.valid) {
+    return validationErrorResponse(
+      renderValidation,
+      'Invalid page options',
+      'PDF page options validation failed',
+    );
+  }
+
+  const baseName = sanitizeFilename(file.name).replace(/\.[^/.]+$/, '');
+  const entries: ArchiveEntry[] = [];
+  const renderedPages: number[] = [];
+  const warnings = new Set<string>();
+  let renderDpi = 0;
+  let failure: { page: number; error?: string } | null = null;
+
+  // Each page is converted before the next is rendered, so only its output is kept
+  try {
+    await renderPdfPages(
+      buffer,
+      { ...renderOptions, maxDimension: limits.maxDimension },
+      async (rendered) => {
+        const result = await convertImageServer(rendered.data, options, limits);
+
+        if (!result.success || !result.data) {
+          failure = { page: rendered.page, error: result.error };
+          return false;
+        }
+
+        entries.push({
+          name: generateOutputFilename(
+            `${baseName}-page-${rendered.page}.pdf`,
+            options.outputFormat,
+          ),
+          data: result.data as Buffer,
+        });
+        renderedPages.push(rendered.page);
+        renderDpi ||= rendered.dpi;
+        result.warnings?.forEach((warning) => warnings.add(warning));
+      },
+    );
+  } catch (error) {
+    return errorResponse(
+      'Invalid PDF',
+      error instanceof Error ? error.message : 'The PDF pages could not be rendered',
+      ErrorCode.CORRUPTED_FILE,
+    );
+  }
+
+  // Assigned in the page callback, which control flow analysis does not follow
+  const failed = failure as { page: number; error?: string } | null;
+  if (failed) {
+    return errorResponse(
+      'Conversion failed',
+      failed.error || `Failed to convert page ${failed.page}`,
+      ErrorCode.CONVERSION_FAILED,
+      { page: failed.page },
+    );
+  }
+
+  const headers = {
+    'X-Original-Size': file.size.toString(),
+    'X-Page-Count': pageCount.toString(),
+    'X-Rendered-Pages': renderedPages.join(','),
+    'X-Render-Dpi': String(renderDpi),
+    ...getWarningHeaders('pdf', [...warnings]),
+  };
+
+  if (entries.length === 1) {
+    const data = entries[0].data as Buffer;
+
+    return new Response(new Uint8Array(data), {
+      status: 200,
+      headers: {
+        'Content-Type': getMimeType(options.outputFormat),
+        'Content-Disposition': `attachment; filename="${entries[0].name}"`,
+        'Content-Length': data.length.toString(),
+        'X-Converted-Size': data.length.toString(),
+        ...headers,
+      },
+    });
+  }
+
+  return new Response(createZipStream(entries), {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/zip',
+      'Content-Disposition': `attachment; filename="${baseName}-pages.zip"`,
+      ...headers,
+    },
+  });
+}
+
+/**
+ * Convert every frame of an animated image and return them as a ZIP
+ * A still image is returned as a single converted image
+ */
+export async function createFrameArchiveResponse(
+  { file, buffer, inputFormat, options, warnings }: ParsedConversionRequest,
+  limits: ConverterLimits = getLimits(),
+): Promise<Response> {
+  const { frames = 1, hasAlpha } = await extractMetadata(buffer);
+
+  if (frames > MAX_EXTRACTED_FRAMES) {
+    return errorResponse(
+      'Too many frames',
+      `At most ${MAX_EXTRACTED_FRAMES} frames can be extracted in one request`,
+      ErrorCode.INVALID_ANIMATION_OPTIONS,
+      { frames, max: MAX_EXTRACTED_FRAMES },
+    );
+  }
+
+  const results = await extractFramesServer(buffer, options, limits);
+  const baseName = sanitizeFilename(file.name).replace(/\.[^/.]+$/, '');
+  const digits = String(frames).length;
+  const entries: ArchiveEntry[] = [];
+
+  for (const [index, result] of results.entries()) {
+    if (!result.success || !result.data) {
+      return errorResponse(
+        'Conversion failed',
+        result.error || `Failed to convert frame ${index + 1}`,
+        ErrorCode.CONVERSION_FAILED,
+        { frame: index + 1 },
+      );
+    }
+
+    const frameNumber = String(index + 1).padStart(digits, '0');
+
+    entries.push({
+      name: generateOutputFilename(
+        `${baseName}-frame-${frameNumber}.${inputFormat}`,
+        options.outputFormat,
+      ),
+      data: result.data as Buffer,
+    });
+  }
+
+  const transparency = validateTransparency(
+    options.outputFormat,
+    Boolean(hasAlpha),
+    options.background,
+  );
+
+  const headers = {
+    'X-Original-Size': file.size.toString(),
+    'X-Frame-Count': frames.toString(),
+    ...getWarningHeaders(
+      inputFormat,
+      transparency.details?.warning ? [...warnings, transparency.details.warning] : warnings,
+    ),
+  };
+
+  if (entries.length === 1) {
+    const data = entries[0].data as Buffer;
+
+    return new Response(new Uint8Array(data), {
+      status: 200,
+      headers: {
+        'Content-Type': getMimeType(options.outputFormat),
+        'Content-Disposition': `attachment; filename="${entries[0].name}"`,
+        'Content-Length': data.length.toString(),
+        'X-Converted-Size': data.length.toString(),
+        ...headers,
+      },
+    });
+  }
+
+  return new Response(createZipStream(entries), {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/zip',
+      'Content-Disposition': `attachment; filename="${baseName}-frames.zip"`,
+      ...headers,
+    },
+  });
+}
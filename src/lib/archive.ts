@@ -0,0 +1,54 @@
+/**
+ * ZIP archive creation for multi-file responses
+ */
+
+import JSZip from 'jszip';
+import { Readable } from 'stream';
+
+/**
+ * Single file inside a ZIP archive
+ */
+export interface ArchiveEntry {
+  name: string;
+  data: Buffer | string;
+}
+
+/**
+ * Build a ZIP archive and return it as a web stream
+ * Already-compressed images are stored; text entries are deflated
+ */
+export function createZipStream(
+  entries: ArchiveEntry[],
+): ReadableStream<Uint8Array> {
+  const zip = buildZip(entries);
+
+  const nodeStream = zip.generateNodeStream({
+    type: 'nodebuffer',
+    streamFiles: true,
+  });
+
+  // JSZip returns a legacy stream; wrap it so it can be converted
+  return Readable.toWeb(new Readable().wrap(nodeStream)) as ReadableStream<Uint8Array>;
+}
+
+/**
+ * Build a ZIP archive into a single buffer
+ */
+export async function createZipBuffer(entries: ArchiveEntry[]): Promise<Buffer> {
+  return buildZip(entries).generateAsync({ type: 'nodebuffer' });
+}
+
+/**
+ * Add entries to a new JSZip instance
+ */
+function buildZip(entries: ArchiveEntry[]): JSZip {
+  const zip = new JSZip();
+
+  for (const entry of entries) {
+    zip.file(entry.name, entry.data, {
+      compression: typeof entry.data === 'string' ? 'DEFLATE' : 'STORE',
+    });
+  }
+
+  return zip;
+}
@@ -0,0 +1,158 @@
+/**
+ * BMP (Windows bitmap) encoder
+ * Sharp has no BMP writer, so raw pixel output is wrapped in a
+ * BITMAPFILEHEADER + BITMAPINFOHEADER container here
+ */
+
+/**
+ * Supported BMP bit depths
+ */
+export type BmpBitDepth = 24 | 32;
+
+/**
+ * Raw pixel layout, as returned by Sharp's `raw()` output info
+ */
+export interface RawPixelInfo {
+  width: number;
+  height: number;
+  channels: number;
+}
+
+/**
+ * Basic information read from a BMP header
+ */
+export interface BmpHeaderInfo {
+  width: number;
+  height: number;
+  bitsPerPixel: number;
+  hasAlpha: boolean;
+}
+
+/**
+ * Size of BITMAPFILEHEADER in bytes
+ */
+const FILE_HEADER_SIZE = 14;
+
+/**
+ * Size of BITMAPINFOHEADER in bytes
+ */
+const INFO_HEADER_SIZE = 40;
+
+/**
+ * Uncompressed RGB (BI_RGB)
+ */
+const BI_RGB = 0;
+
+/**
+ * 72 DPI expressed in pixels per metre
+ */
+const PIXELS_PER_METRE = 2835;
+
+/**
+ * Encode raw RGB/RGBA pixels as a BMP file
+ *
+ * Rows are written bottom-up in BGR(A) order. When no bit depth is given,
+ * 32-bit is used for 4-channel input and 24-bit otherwise.
+ */
+export function encodeBmp(
+  pixels: Buffer,
+  info: RawPixelInfo,
+  bitsPerPixel?: BmpBitDepth,
+): Buffer {
+  const { width, height, channels } = info;
+
+  if (channels !== 3 && channels !== 4) {
+    throw new Error(`Unsupported channel count for BMP: ${channels}`);
+  }
+
+  if (pixels.length < width * height * channels) {
+    throw new Error('Pixel buffer is smaller than the image dimensions');
+  }
+
+  const depth: BmpBitDepth = bitsPerPixel || (channels === 4 ? 32 : 24);
+  const bytesPerPixel = depth / 8;
+
+  // Each row is padded to a multiple of 4 bytes
+  const rowSize = Math.ceil((width * bytesPerPixel) / 4) * 4;
+  const imageSize = rowSize * height;
+  const dataOffset = FILE_HEADER_SIZE + INFO_HEADER_SIZE;
+  const fileSize = dataOffset + imageSize;
+
+  const output = Buffer.alloc(fileSize);
+
+  // BITMAPFILEHEADER
+  output.write('BM', 0, 'ascii');
+  output.writeUInt32LE(fileSize, 2);
+  output.writeUInt32LE(0, 6); // Reserved
+  output.writeUInt32LE(dataOffset, 10);
+
+  // BITMAPINFOHEADER
+  output.writeUInt32LE(INFO_HEADER_SIZE, 14);
+  output.writeInt32LE(width, 18);
+  output.writeInt32LE(height, 22); // Positive height = bottom-up rows
+  output.writeUInt16LE(1, 26); // Colour planes
+  output.writeUInt16LE(depth, 28);
+  output.writeUInt32LE(BI_RGB, 30);
+  output.writeUInt32LE(imageSize, 34);
+  output.writeInt32LE(PIXELS_PER_METRE, 38);
+  output.writeInt32LE(PIXELS_PER_METRE, 42);
+  output.writeUInt32LE(0, 46); // Colours in palette
+  output.writeUInt32LE(0, 50); // Important colours
+
+  // Pixel data
+  for (let y = 0; y < height; y++) {
+    const srcRow = y * width * channels;
+    const dstRow = dataOffset + (height - 1 - y) * rowSize;
+
+    for (let x = 0; x < width; x++) {
+      const src = srcRow + x * channels;
+      const dst = dstRow + x * bytesPerPixel;
+
+      output[dst] = pixels[src + 2]; // B
+      output[dst + 1] = pixels[src + 1]; // G
+      output[dst + 2] = pixels[src]; // R
+
+      if (depth === 32) {
+        output[dst + 3] = channels === 4 ? pixels[src + 3] : 0xff; // A
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Read width, height and bit depth from a BMP header
+ * Returns null if the buffer is not a BMP file
+ */
+export function readBmpHeader(buffer: Buffer): BmpHeaderInfo | null {
+  if (
+    buffer.length < FILE_HEADER_SIZE + 16 ||
+    buffer[0] !== 0x42 ||
+    buffer[1] !== 0x4d
+  ) {
+    return null;
+  }
+
+  const headerSize = buffer.readUInt32LE(14);
+
+  // BITMAPCOREHEADER (OS/2) uses 16-bit dimensions
+  if (headerSize === 12) {
+    const bitsPerPixel = buffer.readUInt16LE(24);
+    return {
+      width: buffer.readUInt16LE(18),
+      height: buffer.readUInt16LE(20),
+      bitsPerPixel,
+      hasAlpha: false,
+    };
+  }
+
+  const bitsPerPixel = buffer.readUInt16LE(28);
+
+  return {
+    width: buffer.readInt32LE(18),
+    height: Math.abs(buffer.readInt32LE(22)), // Negative height = top-down rows
+    bitsPerPixel,
+    hasAlpha: bitsPerPixel === 32,
+  };
+}
@@ -3,57 +3,160 @@
  * Runs in the browser, no server-side processing required
  */
 
-import type { ConversionOptions, ConversionResult, ImageFormat } from './types';
+import type {
+  ConversionOptions,
+  ConversionResult,
+  ImageFormat,
+  QualityOption,
+  Recipe,
+  RecipeOperation,
+  WatermarkOptions,
+} from './types';
 import { ErrorCode } from './types';
-import { getMimeType, supportsQuality, normalizeFormat } from './formats';
-import { DEFAULT_QUALITY } from './formats';
-import { clampQuality } from './utils';
+import { getMimeType, supportsQuality, supportsTransparency, normalizeFormat } from './formats';
+import { DEFAULT_QUALITY, DEFAULT_SVG_DENSITY } from './formats';
+import {
+  calculateDimensions,
+  clampQuality,
+  formatFileSize,
+  isSvg,
+  mapWithConcurrency,
+} from './utils';
+import {
+  DEFAULT_FLATTEN_BACKGROUND,
+  getRecipeFormat,
+  getFocalPoint,
+  getUnsupportedClientOperations,
+  getBase64Payload,
+  isCropWithinBounds,
+  planResize,
+  planRotation,
+} from './recipe';
+import { getMetadataConversionMethod } from './metadata';
+import { getAnimationConversionMethod } from './animation';
+import { searchTargetSize } from './target-size';
+import { sanitizeSvg, validateImagePixels } from './validator';
+import { IMAGE_HEADER_READ_SIZE } from './image-header';
+import {
+  WATERMARK_FONT_SIZE,
+  getWatermarkSize,
+  planWatermark,
+  resolveWatermark,
+} from './watermark';
 
 /**
  * Convert image using Canvas API (client-side)
+ * Drawing to a canvas drops all metadata, so only `metadata: 'strip'` is supported,
+ * and keeps only the first frame of an animation
  */
 export async function convertImageClient(
   file: File,
   options: ConversionOptions,
 ): Promise<ConversionResult> {
+  if (getMetadataConversionMethod(options.metadata) === 'server') {
+    return {
+      success: false,
+      error: 'Keeping or writing metadata requires server-side processing',
+    };
+  }
+
+  if (options.quality === 'auto') {
+    return {
+      success: false,
+      error: 'Automatic quality requires server-side processing',
+    };
+  }
+
+  if (getFocalPoint(options.position) === null) {
+    return {
+      success: false,
+      error: 'Entropy and attention cropping require server-side processing',
+    };
+  }
+
+  if (getAnimationConversionMethod(options) === 'server') {
+    return {
+      success: false,
+      error: 'Animated output and frame extraction require server-side processing',
+    };
+  }
+
+  if (options.recipe) {
+    return executeRecipeClient(file, options.recipe, options);
+  }
+
   try {
     // Normalize format
     const outputFormat = normalizeFormat(options.outputFormat);
 
     // Load image
-    const img = await loadImage(file);
-
-    // Get original dimensions
-    const originalWidth = img.width;
-    const originalHeight = img.height;
-
-    // Calculate target dimensions
-    const { width, height } = calculateTargetDimensions(
-      originalWidth,
-      originalHeight,
-      options.width,
-      options.height,
+    const img = await loadSourceImage(file, options.density);
+
+    // SVG source pixels are at the density (the canvas draws the vector at any size)
+    const scale = (options.density || DEFAULT_SVG_DENSITY) / DEFAULT_SVG_DENSITY;
+    const sourceWidth = Math.round(img.width * scale);
+    const sourceHeight = Math.round(img.height * scale);
+
+    // Crop in source pixels before resizing
+    const crop = options.crop || { left: 0, top: 0, width: sourceWidth, height: sourceHeight };
+    if (!isCropWithinBounds(crop, sourceWidth, sourceHeight)) {
+      throw new Error('Crop area exceeds image bounds');
+    }
+
+    // Resolve fit and position to source and destination rectangles
+    const plan = planResize(crop.width, crop.height, {
+      op: 'resize',
+      width: options.width,
+      height: options.height,
+      fit: options.fit,
+      position: options.position,
+      withoutEnlargement: false,
+    });
+
+    // Only contain leaves uncovered space to fill
+    let canvas = createCanvas(
+      plan.width,
+      plan.height,
+      options.fit === 'contain' ? options.background : undefined,
     );
 
-    // Create canvas
-    const canvas = document.createElement('canvas');
-    canvas.width = width;
-    canvas.height = height;
+    // Draw the image (cover crops the source, contain pads the destination)
+    getContext(canvas).drawImage(
+      img,
+      (crop.left + plan.source.x) / scale,
+      (crop.top + plan.source.y) / scale,
+      plan.source.width / scale,
+      plan.source.height / scale,
+      plan.dest.x,
+      plan.dest.y,
+      plan.dest.width,
+      plan.dest.height,
+    );
 
-    // Draw image on canvas
-    const ctx = canvas.getContext('2d');
-    if (!ctx) {
-      throw new Error('Could not get canvas context');
+    if (options.extend) {
+      canvas = applyRecipeOperation(canvas, {
+        op: 'extend',
+        ...options.extend,
+        background: options.extend.background || options.background,
+      });
     }
 
-    // Use high-quality rendering
-    ctx.imageSmoothingEnabled = true;
-    ctx.imageSmoothingQuality = 'high';
+    // Canvas encoders drop alpha as black; flatten onto the background instead
+    if (!supportsTransparency(outputFormat)) {
+      canvas = applyRecipeOperation(canvas, { op: 'flatten', background: options.background });
+    }
 
-    // Draw the image
-    ctx.drawImage(img, 0, 0, width, height);
+    if (options.watermark) {
+      canvas = await drawWatermark(canvas, options.watermark);
+    }
+
+    const { width, height } = canvas;
+
+    // Compress to a size budget, or convert at the requested quality
+    if (options.targetSize) {
+      return await canvasToTargetSize(canvas, outputFormat, file.size, options);
+    }
 
-    // Convert to target format
     const blob = await canvasToBlob(canvas, outputFormat, options.quality);
 
     if (!blob) {
@@ -82,6 +185,260 @@ export async function convertImageClient(
   }
 }
 
+/**
+ * Execute a transformation recipe using Canvas API (client-side)
+ * Fails with UNSUPPORTED_OPERATION if the recipe needs the server;
+ * check getRecipeConversionMethod() first to route it there
+ */
+export async function executeRecipeClient(
+  file: File,
+  recipe: Recipe,
+  defaults: Pick<ConversionOptions, 'outputFormat' | 'quality' | 'background'>,
+): Promise<ConversionResult> {
+  const unsupported = getUnsupportedClientOperations(recipe);
+  if (unsupported.length > 0) {
+    return {
+      success: false,
+      error: `Recipe requires server-side processing: ${unsupported
+        .map((operation) => operation.op)
+        .join(', ')}`,
+    };
+  }
+
+  try {
+    const formatOperation = getRecipeFormat(recipe);
+    const outputFormat = normalizeFormat(
+      formatOperation?.format || defaults.outputFormat,
+    );
+    const quality = formatOperation?.quality ?? defaults.quality;
+
+    const img = await loadSourceImage(file);
+
+    let canvas = createCanvas(img.width, img.height);
+    getContext(canvas).drawImage(img, 0, 0);
+
+    for (const operation of recipe) {
+      canvas = applyRecipeOperation(canvas, operation);
+    }
+
+    if (!supportsTransparency(outputFormat)) {
+      canvas = applyRecipeOperation(canvas, { op: 'flatten', background: defaults.background });
+    }
+
+    const blob = await canvasToBlob(canvas, outputFormat, quality);
+    if (!blob) {
+      throw new Error('Failed to convert image');
+    }
+
+    return {
+      success: true,
+      data: blob,
+      metadata: {
+        originalSize: file.size,
+        convertedSize: blob.size,
+        format: outputFormat,
+        width: canvas.width,
+        height: canvas.height,
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Recipe execution failed',
+    };
+  }
+}
+
+/**
+ * Run a single recipe operation, returning a new canvas
+ */
+function applyRecipeOperation(
+  source: HTMLCanvasElement,
+  operation: RecipeOperation,
+): HTMLCanvasElement {
+  switch (operation.op) {
+    case 'resize': {
+      const plan = planResize(source.width, source.height, operation);
+      const canvas = createCanvas(plan.width, plan.height, operation.background);
+      getContext(canvas).drawImage(
+        source,
+        plan.source.x,
+        plan.source.y,
+        plan.source.width,
+        plan.source.height,
+        plan.dest.x,
+        plan.dest.y,
+        plan.dest.width,
+        plan.dest.height,
+      );
+      return canvas;
+    }
+
+    case 'crop': {
+      if (!isCropWithinBounds(operation, source.width, source.height)) {
+        throw new Error('Crop area exceeds image bounds');
+      }
+      const canvas = createCanvas(operation.width, operation.height);
+      getContext(canvas).drawImage(
+        source,
+        operation.left,
+        operation.top,
+        operation.width,
+        operation.height,
+        0,
+        0,
+        operation.width,
+        operation.height,
+      );
+      return canvas;
+    }
+
+    case 'rotate': {
+      const size = planRotation(source.width, source.height, operation.angle);
+      const canvas = createCanvas(size.width, size.height, operation.background);
+      const ctx = getContext(canvas);
+      ctx.translate(size.width / 2, size.height / 2);
+      ctx.rotate((operation.angle * Math.PI) / 180);
+      ctx.drawImage(source, -source.width / 2, -source.height / 2);
+      return canvas;
+    }
+
+    case 'extend': {
+      const left = operation.left || 0;
+      const top = operation.top || 0;
+      const canvas = createCanvas(
+        source.width + left + (operation.right || 0),
+        source.height + top + (operation.bottom || 0),
+        operation.background,
+      );
+      getContext(canvas).drawImage(source, left, top);
+      return canvas;
+    }
+
+    case 'flatten': {
+      const canvas = createCanvas(
+        source.width,
+        source.height,
+        operation.background || DEFAULT_FLATTEN_BACKGROUND,
+      );
+      getContext(canvas).drawImage(source, 0, 0);
+      return canvas;
+    }
+
+    default:
+      // Output format is applied once, after all pixel operations
+      return source;
+  }
+}
+
+/**
+ * Draw a text or image watermark onto a canvas (in place)
+ */
+async function drawWatermark(
+  canvas: HTMLCanvasElement,
+  options: WatermarkOptions,
+): Promise<HTMLCanvasElement> {
+  const watermark = resolveWatermark(options);
+  const mark =
+    watermark.text !== undefined
+      ? createTextMark(watermark.text, watermark.color)
+      : await loadImage(
+          new File(
+            [Uint8Array.from(atob(getBase64Payload(watermark.image || '')), (c) => c.charCodeAt(0))],
+            'watermark',
+          ),
+        );
+
+  const size = getWatermarkSize(canvas.width, canvas.height, mark.width / mark.height, watermark);
+  const placements = planWatermark(canvas.width, canvas.height, size.width, size.height, watermark);
+
+  const ctx = getContext(canvas);
+  ctx.globalAlpha = watermark.opacity;
+  for (const { left, top } of placements) {
+    ctx.drawImage(mark, left, top, size.width, size.height);
+  }
+  ctx.globalAlpha = 1;
+
+  return canvas;
+}
+
+/**
+ * Render a line of text to a canvas cropped to its ink
+ */
+function createTextMark(text: string, color: string): HTMLCanvasElement {
+  const font = `${WATERMARK_FONT_SIZE}px sans-serif`;
+  const measureCtx = getContext(createCanvas(1, 1));
+  measureCtx.font = font;
+  const metrics = measureCtx.measureText(text);
+
+  const canvas = createCanvas(
+    Math.max(1, Math.ceil(metrics.actualBoundingBoxLeft + metrics.actualBoundingBoxRight)),
+    Math.max(1, Math.ceil(metrics.actualBoundingBoxAscent + metrics.actualBoundingBoxDescent)),
+  );
+  const ctx = getContext(canvas);
+  ctx.font = font;
+  ctx.fillStyle = color;
+  ctx.fillText(text, metrics.actualBoundingBoxLeft, metrics.actualBoundingBoxAscent);
+
+  return canvas;
+}
+
+/**
+ * Create canvas, optionally filled with a background colour
+ */
+function createCanvas(
+  width: number,
+  height: number,
+  background?: string,
+): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+
+  if (background) {
+    const ctx = getContext(canvas);
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, width, height);
+  }
+
+  return canvas;
+}
+
+/**
+ * Get high-quality 2D context
+ */
+function getContext(canvas: HTMLCanvasElement): CanvasRenderingContext2D {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not get canvas context');
+  }
+
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  return ctx;
+}
+
+/**
+ * Load an uploaded image, sanitizing SVG markup first (detected from content)
+ * Images whose header exceeds the pixel budget are rejected before the browser
+ * decodes them; SVG is measured at `density`
+ */
+async function loadSourceImage(file: File, density?: number): Promise<HTMLImageElement> {
+  const header = new Uint8Array(await file.slice(0, IMAGE_HEADER_READ_SIZE).arrayBuffer());
+
+  const pixelsValidation = validateImagePixels(header, { density });
+  if (!pixelsValidation.valid) {
+    throw new Error(pixelsValidation.error);
+  }
+
+  if (!isSvg(header)) {
+    return loadImage(file);
+  }
+
+  const { svg } = sanitizeSvg(await file.text());
+  return loadImage(new File([svg], file.name, { type: getMimeType('svg') }));
+}
+
 /**
  * Load image from File object
  */
@@ -110,14 +467,14 @@ function loadImage(file: File): Promise<HTMLImageElement> {
 function canvasToBlob(
   canvas: HTMLCanvasElement,
   format: ImageFormat,
-  quality?: number,
+  quality?: QualityOption,
 ): Promise<Blob | null> {
   return new Promise((resolve, reject) => {
     const mimeType = getMimeType(format);
-    const useQuality = supportsQuality(format) && quality !== undefined;
-    const qualityValue = useQuality
-      ? clampQuality(quality!) / 100
-      : DEFAULT_QUALITY / 100;
+    const qualityValue =
+      supportsQuality(format) && typeof quality === 'number'
+        ? clampQuality(quality) / 100
+        : DEFAULT_QUALITY / 100;
 
     canvas.toBlob(
       (blob) => {
@@ -134,57 +491,67 @@ function canvasToBlob(
 }
 
 /**
- * Calculate target dimensions maintaining aspect ratio
+ * Encode a canvas at the highest quality whose output fits in `targetSize` bytes
+ * The canvas is also scaled down when `resizeToTarget` is set
  */
-function calculateTargetDimensions(
-  originalWidth: number,
-  originalHeight: number,
-  targetWidth?: number,
-  targetHeight?: number,
-): { width: number; height: number } {
-  // If no dimensions specified, use original
-  if (!targetWidth && !targetHeight) {
-    return { width: originalWidth, height: originalHeight };
-  }
-
-  const aspectRatio = originalWidth / originalHeight;
+async function canvasToTargetSize(
+  canvas: HTMLCanvasElement,
+  format: ImageFormat,
+  originalSize: number,
+  options: ConversionOptions,
+): Promise<ConversionResult> {
+  const targetSize = options.targetSize!;
+
+  const search = await searchTargetSize(
+    async (quality, scale) => {
+      const source = scale < 1 ? scaleCanvas(canvas, scale) : canvas;
+      const blob = await canvasToBlob(source, format, quality);
+
+      if (!blob) {
+        throw new Error('Failed to convert image');
+      }
+
+      return { data: { blob, width: source.width, height: source.height }, size: blob.size };
+    },
+    {
+      targetSize,
+      maxQuality: typeof options.quality === 'number' ? options.quality : DEFAULT_QUALITY,
+      lossy: supportsQuality(format),
+      resize: options.resizeToTarget,
+    },
+  );
 
-  // Only width specified
-  if (targetWidth && !targetHeight) {
-    return {
-      width: targetWidth,
-      height: Math.round(targetWidth / aspectRatio),
-    };
+  if (!search.reached) {
+    throw new Error(
+      `Could not compress below ${formatFileSize(targetSize)}; the smallest output was ${formatFileSize(search.size)}`,
+    );
   }
 
-  // Only height specified
-  if (targetHeight && !targetWidth) {
-    return {
-      width: Math.round(targetHeight * aspectRatio),
-      height: targetHeight,
-    };
-  }
+  return {
+    success: true,
+    data: search.data.blob,
+    metadata: {
+      originalSize,
+      convertedSize: search.size,
+      format,
+      width: search.data.width,
+      height: search.data.height,
+      quality: search.quality,
+    },
+  };
+}
 
-  // Both specified - maintain aspect ratio, fit within bounds
-  if (targetWidth && targetHeight) {
-    const targetAspectRatio = targetWidth / targetHeight;
-
-    if (aspectRatio > targetAspectRatio) {
-      // Width is limiting factor
-      return {
-        width: targetWidth,
-        height: Math.round(targetWidth / aspectRatio),
-      };
-    } else {
-      // Height is limiting factor
-      return {
-        width: Math.round(targetHeight * aspectRatio),
-        height: targetHeight,
-      };
-    }
-  }
+/**
+ * Draw a canvas onto a new canvas scaled by `scale`
+ */
+function scaleCanvas(canvas: HTMLCanvasElement, scale: number): HTMLCanvasElement {
+  const scaled = createCanvas(
+    Math.max(1, Math.round(canvas.width * scale)),
+    Math.max(1, Math.round(canvas.height * scale)),
+  );
 
-  return { width: originalWidth, height: originalHeight };
+  getContext(scaled).drawImage(canvas, 0, 0, scaled.width, scaled.height);
+  return scaled;
 }
 
 /**
@@ -237,7 +604,7 @@ export function isClientConversionSupported(
 export async function getImageDimensions(
   file: File,
 ): Promise<{ width: number; height: number }> {
-  const img = await loadImage(file);
+  const img = await loadSourceImage(file);
   return {
     width: img.width,
     height: img.height,
@@ -252,8 +619,8 @@ export async function resizeImage(
   maxWidth: number,
   maxHeight: number,
 ): Promise<Blob> {
-  const img = await loadImage(file);
-  const { width, height } = calculateTargetDimensions(
+  const img = await loadSourceImage(file);
+  const { width, height } = calculateDimensions(
     img.width,
     img.height,
     maxWidth,
@@ -289,7 +656,7 @@ export async function imageToDataURL(
   format: ImageFormat = 'png',
   quality?: number,
 ): Promise<string> {
-  const img = await loadImage(file);
+  const img = await loadSourceImage(file);
 
   const canvas = document.createElement('canvas');
   canvas.width = img.width;
@@ -310,17 +677,14 @@ export async function imageToDataURL(
 
 /**
  * Batch convert multiple files
+ * Canvas work is memory-heavy, so only a couple of files run at once
  */
 export async function batchConvertImages(
   files: File[],
   options: ConversionOptions,
+  concurrency: number = 2,
 ): Promise<ConversionResult[]> {
-  const results: ConversionResult[] = [];
-
-  for (const file of files) {
-    const result = await convertImageClient(file, options);
-    results.push(result);
-  }
-
-  return results;
+  return mapWithConcurrency(files, concurrency, (file) =>
+    convertImageClient(file, options),
+  );
 }
@@ -0,0 +1,104 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  API_KEY_HEADER,
+  DEFAULT_CONFIG,
+  getDecodePixelLimit,
+  getLimits,
+  getRequestLimits,
+  loadConfig,
+  setConfig,
+} from './config';
+
+const directories: string[] = [];
+
+/**
+ * Write a configuration file and return the environment pointing at it
+ */
+function withConfigFile(config: unknown): Record<string, string> {
+  const directory = mkdtempSync(join(tmpdir(), 'converter-config-'));
+  const path = join(directory, 'config.json');
+  writeFileSync(path, JSON.stringify(config));
+  directories.push(directory);
+
+  return { CONVERTER_CONFIG: path };
+}
+
+afterEach(() => {
+  setConfig(DEFAULT_CONFIG);
+  directories.splice(0).forEach((directory) => rmSync(directory, { recursive: true }));
+});
+
+describe('loadConfig', () => {
+  it('uses the defaults without a file or variables', () => {
+    expect(loadConfig({})).toEqual(DEFAULT_CONFIG);
+  });
+
+  it('lets variables override the file', () => {
+    const config = loadConfig({
+      ...withConfigFile({ limits: { maxFileSize: 1000, defaultQuality: 70 } }),
+      DEFAULT_QUALITY: '80',
+      MAX_BATCH_SIZE: '2MB',
+    });
+
+    expect(config.limits).toMatchObject({
+      maxFileSize: 1000,
+      defaultQuality: 80,
+      maxBatchSize: 2 * 1024 * 1024,
+    });
+  });
+
+  it('rejects invalid variables and per-key limits', () => {
+    expect(() => loadConfig({ DEFAULT_QUALITY: '101' })).toThrow(/DEFAULT_QUALITY/);
+    expect(() =>
+      loadConfig(withConfigFile({ apiKeys: { partner: { maxFileSize: 'big' } } })),
+    ).toThrow(/config\.apiKeys\["partner"\]\.maxFileSize must be an integer/);
+  });
+});
+
+describe('per-key limits', () => {
+  const configure = () =>
+    setConfig(
+      loadConfig(
+        withConfigFile({
+          limits: { maxFileSize: 1000 },
+          apiKeys: { partner: { maxFileSize: 5000, maxInputPixels: 10 ** 9 } },
+        }),
+      ),
+    );
+
+  it('merges the overrides for a key over the deployment limits', () => {
+    configure();
+
+    expect(getLimits('partner')).toMatchObject({
+      maxFileSize: 5000,
+      maxDimension: DEFAULT_CONFIG.limits.maxDimension,
+    });
+  });
+
+  it('gives unknown, missing and inherited keys the deployment limits', () => {
+    configure();
+
+    for (const key of ['other', '', null, undefined, 'toString', '__proto__']) {
+      expect(getLimits(key).maxFileSize).toBe(1000);
+    }
+  });
+
+  it('reads the key from the request header', () => {
+    configure();
+    const request = new Request('http://localhost/api/convert', {
+      headers: { [API_KEY_HEADER]: 'partner' },
+    });
+
+    expect(getRequestLimits(request).maxFileSize).toBe(5000);
+    expect(getRequestLimits(new Request('http://localhost/')).maxFileSize).toBe(1000);
+  });
+
+  it('lets the decoder admit the largest pixel budget', () => {
+    configure();
+
+    expect(getDecodePixelLimit()).toBe(10 ** 9);
+  });
+});
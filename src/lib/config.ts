@@ -0,0 +1,261 @@
+/**
+ * Server configuration
+ * Limits and encoder settings come from the built-in defaults, then an optional
+ * JSON file (CONVERTER_CONFIG), then environment variables. The file can also
+ * give API keys their own limits, selected by the X-API-Key request header
+ */
+
+import { readFileSync } from 'node:fs';
+import type { ConverterConfig, ConverterLimits, EncoderEffort } from './types';
+import {
+  ALLOWED_MIME_TYPES,
+  DEFAULT_QUALITY,
+  MAX_BATCH_FILES,
+  MAX_BATCH_SIZE,
+  MAX_DIMENSION,
+  MAX_FILE_SIZE,
+  MAX_INPUT_DIMENSION,
+  MAX_INPUT_PIXELS,
+} from './formats';
+import { checkSchema } from './recipe';
+import type { JsonSchema } from './recipe';
+import { parseFileSize } from './utils';
+
+/**
+ * Request header carrying the API key
+ */
+export const API_KEY_HEADER = 'X-API-Key';
+
+/**
+ * Configuration used when nothing is overridden
+ */
+export const DEFAULT_CONFIG: ConverterConfig = {
+  limits: {
+    maxFileSize: MAX_FILE_SIZE,
+    maxDimension: MAX_DIMENSION,
+    maxInputPixels: MAX_INPUT_PIXELS,
+    maxInputDimension: MAX_INPUT_DIMENSION,
+    defaultQuality: DEFAULT_QUALITY,
+    allowedMimeTypes: ALLOWED_MIME_TYPES,
+    maxBatchFiles: MAX_BATCH_FILES,
+    maxBatchSize: MAX_BATCH_SIZE,
+  },
+  effort: {
+    webp: 6,
+    avif: 4,
+  },
+  apiKeys: {},
+};
+
+/**
+ * JSON Schema for limits (all optional, so it also covers per-key overrides)
+ */
+const LIMITS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    maxFileSize: { type: 'integer', minimum: 1 },
+    maxDimension: { type: 'integer', minimum: 1, maximum: MAX_INPUT_DIMENSION },
+    maxInputPixels: { type: 'integer', minimum: 1 },
+    maxInputDimension: { type: 'integer', minimum: 1, maximum: MAX_INPUT_DIMENSION },
+    defaultQuality: { type: 'integer', minimum: 1, maximum: 100 },
+    allowedMimeTypes: { type: 'array', minItems: 1, items: { enum: ALLOWED_MIME_TYPES } },
+    maxBatchFiles: { type: 'integer', minimum: 1 },
+    maxBatchSize: { type: 'integer', minimum: 1 },
+  },
+  additionalProperties: false,
+};
+
+/**
+ * JSON Schema for encoder effort
+ */
+const EFFORT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    webp: { type: 'integer', minimum: 0, maximum: 6 },
+    avif: { type: 'integer', minimum: 0, maximum: 9 },
+  },
+  additionalProperties: false,
+};
+
+/**
+ * JSON Schema for the configuration file; `apiKeys` entries are checked
+ * against LIMITS_SCHEMA separately since the keys are arbitrary
+ */
+const CONFIG_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    limits: LIMITS_SCHEMA,
+    effort: EFFORT_SCHEMA,
+    apiKeys: { type: 'object' },
+  },
+  additionalProperties: false,
+};
+
+/**
+ * Environment variables for each limit
+ */
+const LIMIT_VARIABLES: Record<keyof ConverterLimits, string> = {
+  maxFileSize: 'MAX_FILE_SIZE',
+  maxDimension: 'MAX_DIMENSION',
+  maxInputPixels: 'MAX_INPUT_PIXELS',
+  maxInputDimension: 'MAX_INPUT_DIMENSION',
+  defaultQuality: 'DEFAULT_QUALITY',
+  allowedMimeTypes: 'ALLOWED_MIME_TYPES',
+  maxBatchFiles: 'MAX_BATCH_FILES',
+  maxBatchSize: 'MAX_BATCH_SIZE',
+};
+
+/**
+ * Environment variables for each encoder effort
+ */
+const EFFORT_VARIABLES: Record<keyof EncoderEffort, string> = {
+  webp: 'WEBP_EFFORT',
+  avif: 'AVIF_EFFORT',
+};
+
+/**
+ * Configuration file shape, before defaults are applied
+ */
+interface ConfigOverrides {
+  limits?: Partial<ConverterLimits>;
+  effort?: Partial<EncoderEffort>;
+  apiKeys?: Record<string, Partial<ConverterLimits>>;
+}
+
+let activeConfig: ConverterConfig | null = null;
+
+/**
+ * Load the configuration from an optional JSON file and environment variables
+ * Throws if either is invalid, so a misconfigured deployment fails loudly
+ */
+export function loadConfig(
+  env: Record<string, string | undefined> = process.env,
+): ConverterConfig {
+  const path = env.CONVERTER_CONFIG;
+  const file = path ? readConfigFile(path) : {};
+  const fromEnv = readEnvironment(env);
+
+  return {
+    limits: { ...DEFAULT_CONFIG.limits, ...file.limits, ...fromEnv.limits },
+    effort: { ...DEFAULT_CONFIG.effort, ...file.effort, ...fromEnv.effort },
+    apiKeys: file.apiKeys || {},
+  };
+}
+
+/**
+ * Get the active configuration (loaded on first use)
+ */
+export function getConfig(): ConverterConfig {
+  if (!activeConfig) {
+    activeConfig = loadConfig();
+  }
+
+  return activeConfig;
+}
+
+/**
+ * Replace the active configuration (e.g. after reloading it)
+ */
+export function setConfig(config: ConverterConfig): void {
+  activeConfig = config;
+}
+
+/**
+ * Get the effective limits for an API key
+ * Unknown or missing keys get the deployment limits
+ */
+export function getLimits(apiKey?: string | null): ConverterLimits {
+  const { limits, apiKeys } = getConfig();
+  const overrides = apiKey && Object.hasOwn(apiKeys, apiKey) ? apiKeys[apiKey] : undefined;
+
+  return overrides ? { ...limits, ...overrides } : limits;
+}
+
+/**
+ * Get the effective limits for a request, from its X-API-Key header
+ */
+export function getRequestLimits(request: Request): ConverterLimits {
+  return getLimits(request.headers.get(API_KEY_HEADER));
+}
+
+/**
+ * Get the pixel limit for Sharp's decoder
+ * Uploads are checked against their own budget from the header first; this is
+ * the backstop for headers that cannot be read, so it admits the largest budget
+ */
+export function getDecodePixelLimit(): number {
+  const { limits, apiKeys } = getConfig();
+
+  return Math.max(
+    limits.maxInputPixels,
+    ...Object.values(apiKeys).map((overrides) => overrides.maxInputPixels || 0),
+  );
+}
+
+/**
+ * Read and check the JSON configuration file
+ */
+function readConfigFile(path: string): ConfigOverrides {
+  let file: unknown;
+  try {
+    file = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not read configuration file ${path}: ${reason}`);
+  }
+
+  const errors = checkSchema(file, CONFIG_SCHEMA, 'config');
+
+  if (errors.length === 0) {
+    for (const [key, overrides] of Object.entries((file as ConfigOverrides).apiKeys || {})) {
+      const keyPath = `config.apiKeys[${JSON.stringify(key)}]`;
+      errors.push(...checkSchema(overrides, LIMITS_SCHEMA, keyPath));
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid configuration file ${path}: ${errors.join('; ')}`);
+  }
+
+  return file as ConfigOverrides;
+}
+
+/**
+ * Read and check limits and effort set by environment variables
+ * Sizes accept units ("25MB"); MIME types are comma-separated
+ */
+function readEnvironment(env: Record<string, string | undefined>): ConfigOverrides {
+  const limits: Record<string, unknown> = {};
+  const effort: Record<string, unknown> = {};
+  const errors: string[] = [];
+
+  for (const [name, variable] of Object.entries(LIMIT_VARIABLES)) {
+    const value = env[variable]?.trim();
+    if (!value) {
+      continue;
+    }
+
+    if (name === 'allowedMimeTypes') {
+      limits[name] = value.split(',').map((type) => type.trim().toLowerCase()).filter(Boolean);
+    } else {
+      const isSize = name === 'maxFileSize' || name === 'maxBatchSize';
+      limits[name] = isSize ? parseFileSize(value) : Number(value);
+    }
+
+    errors.push(...checkSchema(limits[name], LIMITS_SCHEMA.properties![name], variable));
+  }
+
+  for (const [name, variable] of Object.entries(EFFORT_VARIABLES)) {
+    const value = env[variable]?.trim();
+    if (value) {
+      effort[name] = Number(value);
+      errors.push(...checkSchema(effort[name], EFFORT_SCHEMA.properties![name], variable));
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid configuration in environment: ${errors.join('; ')}`);
+  }
+
+  return { limits, effort };
+}
@@ -0,0 +1,477 @@
+/**
+ * Document conversion using mammoth
+ * Runs in the browser and in Node.js (mammoth ships a browser build)
+ */
+
+import mammoth from 'mammoth';
+import type {
+  DocumentConversionResult,
+  DocumentOutputFormat,
+} from './types';
+import { logError } from './utils';
+
+/**
+ * DOCX conversion options
+ */
+export interface DocxConversionOptions {
+  title?: string; // HTML <title>; defaults to the first heading
+  fullDocument?: boolean; // Wrap HTML output in <html>/<body> (default: true)
+  includeImages?: boolean; // Inline images as data URIs (default: true)
+}
+
+/**
+ * Convert a DOCX file to HTML, Markdown or plain text
+ */
+export async function convertDocx(
+  input: ArrayBuffer | Uint8Array,
+  outputFormat: DocumentOutputFormat,
+  options: DocxConversionOptions = {},
+): Promise<DocumentConversionResult> {
+  try {
+    const { fullDocument = true, includeImages = true } = options;
+    const source = toMammothInput(input);
+
+    let data: string;
+    let messages: { type: string; message: string }[];
+
+    if (outputFormat === 'txt') {
+      const result = await mammoth.extractRawText(source);
+      data = normalizeText(result.value);
+      messages = result.messages;
+    } else {
+      const result = await mammoth.convertToHtml(source, {
+        convertImage: includeImages
+          ? mammoth.images.dataUri
+          : mammoth.images.imgElement(async () => ({ src: '' })),
+      });
+      messages = result.messages;
+
+      const html = includeImages ? result.value : stripEmptyImages(result.value);
+
+      if (outputFormat === 'md') {
+        data = htmlToMarkdown(html);
+      } else {
+        data = fullDocument
+          ? wrapHtmlDocument(html, options.title || findTitle(html))
+          : html;
+      }
+    }
+
+    return {
+      success: true,
+      data,
+      warnings: messages.map((message) => message.message),
+      metadata: {
+        originalSize: input.byteLength,
+        convertedSize: new TextEncoder().encode(data).length,
+        format: outputFormat,
+      },
+    };
+  } catch (error) {
+    logError(error, { operation: 'convertDocx' });
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Document conversion failed',
+    };
+  }
+}
+
+/**
+ * Build mammoth input for the current runtime
+ * (the Node build reads `buffer`, the browser build reads `arrayBuffer`)
+ */
+function toMammothInput(
+  input: ArrayBuffer | Uint8Array,
+): { buffer: Buffer } | { arrayBuffer: ArrayBuffer } {
+  if (typeof Buffer !== 'undefined') {
+    return {
+      buffer: input instanceof Uint8Array
+        ? Buffer.from(input.buffer, input.byteOffset, input.byteLength)
+        : Buffer.from(input),
+    };
+  }
+
+  return {
+    arrayBuffer: input instanceof Uint8Array
+      ? (input.buffer.slice(input.byteOffset, input.byteOffset + input.byteLength) as ArrayBuffer)
+      : input,
+  };
+}
+
+/**
+ * Normalise line endings and collapse runs of blank lines
+ */
+function normalizeText(text: string): string {
+  return text.replace(/\r\n?/g, '\n').replace(/\n{3,}/g, '\n\n').trim() + '\n';
+}
+
+/**
+ * Remove placeholder images left when images are excluded
+ */
+function stripEmptyImages(html: string): string {
+  return html.replace(/<img src=""[^>]*\/?>/g, '');
+}
+
+/**
+ * Use the first heading as the document title
+ */
+function findTitle(html: string): string {
+  const match = html.match(/<h[1-6][^>]*>([\s\S]*?)<\/h[1-6]>/);
+  const text = match ? decodeEntities(match[1].replace(/<[^>]+>/g, '')).trim() : '';
+  return text || 'Converted Document';
+}
+
+/**
+ * Wrap an HTML fragment in a standalone document
+ */
+function wrapHtmlDocument(body: string, title: string): string {
+  return [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<head>',
+    '<meta charset="UTF-8">',
+    `<title>${escapeHtml(title)}</title>`,
+    '</head>',
+    '<body>',
+    body,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Escape text for HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Decode the HTML entities mammoth emits
+ */
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Parsed HTML node (mammoth output is well-formed, so a small parser suffices)
+ */
+type HtmlNode =
+  | { type: 'text'; text: string }
+  | { type: 'element'; tag: string; attrs: Record<string, string>; children: HtmlNode[] };
+
+/**
+ * Elements that never have children
+ */
+const VOID_ELEMENTS = ['br', 'hr', 'img'];
+
+/**
+ * Parse an HTML fragment into a node tree
+ */
+function parseHtml(html: string): HtmlNode[] {
+  const root: HtmlNode[] = [];
+  const stack: { tag: string; children: HtmlNode[] }[] = [{ tag: '', children: root }];
+  const tokenPattern = /<(\/?)([a-zA-Z0-9]+)((?:\s+[^\s=>]+(?:="[^"]*")?)*)\s*(\/?)>|([^<]+)/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = tokenPattern.exec(html)) !== null) {
+    const [, closing, rawTag, rawAttrs, selfClosing, text] = match;
+    const current = stack[stack.length - 1];
+
+    if (text !== undefined) {
+      current.children.push({ type: 'text', text: decodeEntities(text) });
+      continue;
+    }
+
+    const tag = rawTag.toLowerCase();
+
+    if (closing) {
+      // Pop back to the matching element, tolerating unbalanced markup
+      const index = stack.map((entry) => entry.tag).lastIndexOf(tag);
+      if (index > 0) {
+        stack.length = index;
+      }
+      continue;
+    }
+
+    const attrs: Record<string, string> = {};
+    for (const attr of rawAttrs.matchAll(/([^\s=]+)(?:="([^"]*)")?/g)) {
+      attrs[attr[1].toLowerCase()] = decodeEntities(attr[2] || '');
+    }
+
+    const element: HtmlNode = { type: 'element', tag, attrs, children: [] };
+    current.children.push(element);
+
+    if (!selfClosing && !VOID_ELEMENTS.includes(tag)) {
+      stack.push({ tag, children: element.children });
+    }
+  }
+
+  return root;
+}
+
+/**
+ * Convert mammoth HTML to GitHub-flavoured Markdown
+ * Supports headings, paragraphs, emphasis, links, images, lists and tables
+ */
+export function htmlToMarkdown(html: string): string {
+  const markdown = renderBlocks(parseHtml(html), 0);
+  return markdown.replace(/\n{3,}/g, '\n\n').trim() + '\n';
+}
+
+/**
+ * Render block-level nodes
+ */
+function renderBlocks(nodes: HtmlNode[], listDepth: number): string {
+  let output = '';
+  let inline: HtmlNode[] = [];
+
+  // Inline content between blocks is treated as a paragraph
+  const flushInline = () => {
+    const text = renderInline(inline).trim();
+    if (text) {
+      output += `${text}\n\n`;
+    }
+    inline = [];
+  };
+
+  for (const node of nodes) {
+    if (node.type === 'text' || !isBlockElement(node.tag)) {
+      inline.push(node);
+      continue;
+    }
+
+    flushInline();
+    output += renderBlock(node, listDepth);
+  }
+
+  flushInline();
+  return output;
+}
+
+/**
+ * Check if a tag is block-level
+ */
+function isBlockElement(tag: string): boolean {
+  return /^(h[1-6]|p|ul|ol|table|blockquote|pre|hr|div)$/.test(tag);
+}
+
+/**
+ * Render a single block element
+ */
+function renderBlock(
+  node: Extract<HtmlNode, { type: 'element' }>,
+  listDepth: number,
+): string {
+  const heading = node.tag.match(/^h([1-6])$/);
+  if (heading) {
+    return `${'#'.repeat(Number(heading[1]))} ${renderInline(node.children).trim()}\n\n`;
+  }
+
+  switch (node.tag) {
+    case 'p':
+    case 'div':
+      return renderBlocks(node.children, listDepth);
+
+    case 'ul':
+    case 'ol':
+      return renderList(node, listDepth) + (listDepth === 0 ? '\n' : '');
+
+    case 'table':
+      return renderTable(node);
+
+    case 'blockquote':
+      return (
+        renderBlocks(node.children, listDepth)
+          .trim()
+          .split('\n')
+          .map((line) => (line ? `> ${line}` : '>'))
+          .join('\n') + '\n\n'
+      );
+
+    case 'pre':
+      return `\`\`\`\n${textContent(node.children).replace(/\n$/, '')}\n\`\`\`\n\n`;
+
+    case 'hr':
+      return '---\n\n';
+
+    default:
+      return renderBlocks(node.children, listDepth);
+  }
+}
+
+/**
+ * Render an ordered or unordered list (nested lists are indented)
+ */
+function renderList(
+  node: Extract<HtmlNode, { type: 'element' }>,
+  depth: number,
+): string {
+  const indent = '  '.repeat(depth);
+  let counter = Number(node.attrs.start) || 1;
+  let output = '';
+
+  for (const item of node.children) {
+    if (item.type !== 'element' || item.tag !== 'li') {
+      continue;
+    }
+
+    const marker = node.tag === 'ol' ? `${counter++}.` : '-';
+    const inlineNodes = item.children.filter(
+      (child) => child.type === 'text' || !['ul', 'ol'].includes(child.tag),
+    );
+    const nestedLists = item.children.filter(
+      (child) => child.type === 'element' && ['ul', 'ol'].includes(child.tag),
+    );
+
+    const text = renderBlocks(inlineNodes, depth + 1)
+      .trim()
+      .replace(/\n+/g, `\n${indent}  `);
+    output += `${indent}${marker} ${text}\n`;
+
+    for (const nested of nestedLists) {
+      output += renderList(nested as Extract<HtmlNode, { type: 'element' }>, depth + 1);
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Render a table as a GFM pipe table (first row is the header)
+ */
+function renderTable(node: Extract<HtmlNode, { type: 'element' }>): string {
+  const rows = collectElements(node, 'tr').map((row) =>
+    row.children
+      .filter(
+        (cell): cell is Extract<HtmlNode, { type: 'element' }> =>
+          cell.type === 'element' && (cell.tag === 'td' || cell.tag === 'th'),
+      )
+      .map((cell) =>
+        renderBlocks(cell.children, 0)
+          .trim()
+          .replace(/\n+/g, '<br>')
+          .replace(/\|/g, '\\|'),
+      ),
+  );
+
+  if (rows.length === 0) {
+    return '';
+  }
+
+  const columns = Math.max(...rows.map((row) => row.length));
+  const pad = (row: string[]) => [...row, ...Array(columns - row.length).fill('')];
+  const formatRow = (row: string[]) => `| ${pad(row).join(' | ')} |`;
+
+  return [
+    formatRow(rows[0]),
+    formatRow(Array(columns).fill('---')),
+    ...rows.slice(1).map(formatRow),
+  ].join('\n') + '\n\n';
+}
+
+/**
+ * Find descendant elements by tag (not descending into nested tables)
+ */
+function collectElements(
+  node: Extract<HtmlNode, { type: 'element' }>,
+  tag: string,
+): Extract<HtmlNode, { type: 'element' }>[] {
+  const found: Extract<HtmlNode, { type: 'element' }>[] = [];
+
+  for (const child of node.children) {
+    if (child.type !== 'element') {
+      continue;
+    }
+    if (child.tag === tag) {
+      found.push(child);
+    } else if (child.tag !== 'table') {
+      found.push(...collectElements(child, tag));
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Render inline nodes
+ */
+function renderInline(nodes: HtmlNode[]): string {
+  return nodes
+    .map((node) => {
+      if (node.type === 'text') {
+        return escapeMarkdown(node.text.replace(/\s+/g, ' '));
+      }
+
+      const content = renderInline(node.children);
+
+      switch (node.tag) {
+        case 'strong':
+        case 'b':
+          return wrapInline(content, '**');
+        case 'em':
+        case 'i':
+          return wrapInline(content, '*');
+        case 's':
+        case 'del':
+          return wrapInline(content, '~~');
+        case 'code':
+          return `\`${textContent(node.children)}\``;
+        case 'sup':
+        case 'sub':
+          return `<${node.tag}>${content}</${node.tag}>`;
+        case 'br':
+          return '  \n';
+        case 'img':
+          return node.attrs.src
+            ? `![${escapeMarkdown(node.attrs.alt || '')}](${node.attrs.src})`
+            : '';
+        case 'a':
+          // mammoth emits <a id="..."> bookmarks without href
+          return node.attrs.href ? `[${content}](${node.attrs.href})` : content;
+        default:
+          return content;
+      }
+    })
+    .join('');
+}
+
+/**
+ * Wrap inline content in a Markdown marker, keeping surrounding spaces outside
+ */
+function wrapInline(content: string, marker: string): string {
+  const match = content.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  return match[2] ? `${match[1]}${marker}${match[2]}${marker}${match[3]}` : content;
+}
+
+/**
+ * Plain text of a node list
+ */
+function textContent(nodes: HtmlNode[]): string {
+  return nodes
+    .map((node) => (node.type === 'text' ? node.text : textContent(node.children)))
+    .join('');
+}
+
+/**
+ * Escape characters with Markdown meaning
+ */
+function escapeMarkdown(text: string): string {
+  return text
+    .replace(/([\\`*_[\]<>])/g, '\\$1')
+    .replace(/^(\s*)([#+-]|\d+\.)(\s)/, '$1\\$2$3');
+}
@@ -4,11 +4,19 @@
 
 import type {
   ImageFormat,
+  DocumentFormat,
+  FileFormat,
   FormatSupport,
   FormatCapability,
   MimeTypeMap,
   FileMagicBytes,
+  PdfPageSize,
+  ResizeFit,
+  Gravity,
+  CropStrategy,
+  ConverterLimits,
 } from './types';
+import { AVIF_BRANDS, HEIC_BRANDS, HEIF_BRANDS } from './isobmff';
 
 /**
  * Maximum file size (10MB)
@@ -25,11 +33,225 @@ export const MAX_DIMENSION = 4096;
  */
 export const MIN_DIMENSION = 1;
 
+/**
+ * Pixel budget for decoding an input image (8192x8192, about 256MB as RGBA)
+ * Inputs may be larger than MAX_DIMENSION as long as they are resized to fit
+ */
+export const MAX_INPUT_PIXELS = 8192 * 8192;
+
+/**
+ * Maximum width or height of an input image, whatever its pixel count
+ */
+export const MAX_INPUT_DIMENSION = 16384;
+
+/**
+ * Resize fit modes
+ */
+export const RESIZE_FITS: ResizeFit[] = ['cover', 'contain', 'fill', 'inside', 'outside'];
+
+/**
+ * Named positions for cover/contain resizing and composites
+ */
+export const GRAVITIES: Gravity[] = [
+  'center',
+  'north',
+  'northeast',
+  'east',
+  'southeast',
+  'south',
+  'southwest',
+  'west',
+  'northwest',
+];
+
+/**
+ * Content-aware crop strategies (server only, cover fit only)
+ */
+export const CROP_STRATEGIES: CropStrategy[] = ['entropy', 'attention'];
+
 /**
  * Default quality for lossy formats
  */
 export const DEFAULT_QUALITY = 90;
 
+/**
+ * Maximum number of files in a batch request
+ */
+export const MAX_BATCH_FILES = 20;
+
+/**
+ * Maximum combined size of a batch request (50MB)
+ */
+export const MAX_BATCH_SIZE = 50 * 1024 * 1024;
+
+/**
+ * Number of server-side conversions run in parallel for a batch
+ */
+export const BATCH_CONCURRENCY = 3;
+
+/**
+ * Default PDF page margin in points (0.5 inch)
+ */
+export const DEFAULT_PDF_MARGIN = 36;
+
+/**
+ * Maximum PDF page margin in points (2 inches)
+ */
+export const MAX_PDF_MARGIN = 144;
+
+/**
+ * PDF page sizes in points (portrait)
+ */
+export const PDF_PAGE_SIZES: Record<Exclude<PdfPageSize, 'fit'>, [number, number]> = {
+  a3: [841.89, 1190.55],
+  a4: [595.28, 841.89],
+  a5: [419.53, 595.28],
+  letter: [612, 792],
+  legal: [612, 1008],
+};
+
+/**
+ * Default font size for text PDFs in points
+ */
+export const DEFAULT_PDF_FONT_SIZE = 11;
+
+/**
+ * Font size limits for text PDFs in points
+ */
+export const MIN_PDF_FONT_SIZE = 6;
+export const MAX_PDF_FONT_SIZE = 72;
+
+/**
+ * Default line height for text PDFs (multiple of font size)
+ */
+export const DEFAULT_PDF_LINE_HEIGHT = 1.4;
+
+/**
+ * Line height limits for text PDFs
+ */
+export const MIN_PDF_LINE_HEIGHT = 1;
+export const MAX_PDF_LINE_HEIGHT = 3;
+
+/**
+ * Default resolution for rendering PDF pages to images
+ */
+export const DEFAULT_PDF_RENDER_DPI = 150;
+
+/**
+ * Resolution limits for rendering PDF pages
+ */
+export const MIN_PDF_RENDER_DPI = 36;
+export const MAX_PDF_RENDER_DPI = 600;
+
+/**
+ * Maximum number of PDF pages rendered in one request
+ */
+export const MAX_PDF_RENDER_PAGES = 50;
+
+/**
+ * Default widths for responsive image sets
+ */
+export const DEFAULT_RESPONSIVE_WIDTHS = [320, 640, 960, 1280, 1920];
+
+/**
+ * Maximum number of widths in one responsive image set
+ */
+export const MAX_RESPONSIVE_WIDTHS = 10;
+
+/**
+ * Default formats for responsive image sets, in <source> order
+ */
+export const DEFAULT_RESPONSIVE_FORMATS: ImageFormat[] = ['avif', 'webp', 'jpg'];
+
+/**
+ * Formats usable in a responsive image set (browser-displayable)
+ */
+export const RESPONSIVE_FORMATS: ImageFormat[] = ['avif', 'webp', 'jpg', 'jpeg', 'png', 'gif'];
+
+/**
+ * Default SSIM threshold for quality 'auto' (visually lossless for most photos)
+ */
+export const DEFAULT_MIN_SSIM = 0.98;
+
+/**
+ * Accepted SSIM thresholds for quality 'auto'
+ */
+export const MIN_SSIM_THRESHOLD = 0.5;
+export const MAX_SSIM_THRESHOLD = 0.999;
+
+/**
+ * Quality range searched by quality 'auto'
+ */
+export const MIN_AUTO_QUALITY = 30;
+export const MAX_AUTO_QUALITY = 95;
+
+/**
+ * Smallest accepted target file size in bytes
+ */
+export const MIN_TARGET_SIZE = 1024;
+
+/**
+ * Lowest quality tried when compressing to a target size
+ */
+export const MIN_TARGET_QUALITY = 10;
+
+/**
+ * Maximum number of downscaling steps when compressing to a target size
+ */
+export const MAX_TARGET_SIZE_RESIZES = 6;
+
+/**
+ * Watermark defaults: opacity (0-1), width as a fraction of the image width,
+ * and distance from the edges (and between tiles) in pixels
+ */
+export const DEFAULT_WATERMARK_OPACITY = 0.5;
+export const DEFAULT_WATERMARK_SCALE = 0.25;
+export const DEFAULT_WATERMARK_MARGIN = 16;
+export const DEFAULT_WATERMARK_COLOR = '#ffffff';
+
+/**
+ * Maximum length of watermark text
+ */
+export const MAX_WATERMARK_TEXT_LENGTH = 200;
+
+/**
+ * Maximum tiled watermark copies per row and per column
+ */
+export const MAX_WATERMARK_TILES = 20;
+
+/**
+ * SVG rasterization density in DPI (72 renders at the SVG's own size)
+ */
+export const DEFAULT_SVG_DENSITY = 72;
+export const MIN_SVG_DENSITY = 1;
+export const MAX_SVG_DENSITY = 2400;
+
+/**
+ * Maximum rotation angle in degrees (either direction)
+ */
+export const MAX_ROTATION = 360;
+
+/**
+ * Gaussian blur sigma range (Sharp rejects sigma below 0.3)
+ */
+export const MIN_BLUR_SIGMA = 0.3;
+export const MAX_BLUR_SIGMA = 100;
+
+/**
+ * Largest animation loop count (GIF stores it in 16 bits; 0 = forever)
+ */
+export const MAX_ANIMATION_LOOP = 65535;
+
+/**
+ * Largest frame delay in milliseconds
+ */
+export const MAX_FRAME_DELAY = 65535;
+
+/**
+ * Maximum number of frames extracted from an animation in one request
+ */
+export const MAX_EXTRACTED_FRAMES = 100;
+
 /**
  * Formats supported by client-side Canvas API
  */
@@ -39,6 +261,7 @@ export const CLIENT_FORMATS: ImageFormat[] = [
   'png',
   'webp',
   'gif', // Read-only, can convert FROM gif to other formats
+  'svg', // Read-only, drawn as an image
 ];
 
 /**
@@ -53,8 +276,25 @@ export const SERVER_FORMATS: ImageFormat[] = [
   'avif',
   'tiff',
   'bmp',
+  'heic', // Read-only; decoding HEVC needs a libvips built with libde265
+  'svg', // Read-only; rasterized by librsvg
 ];
 
+/**
+ * Formats Sharp can read but not write
+ */
+export const INPUT_ONLY_FORMATS: ImageFormat[] = ['heic', 'svg'];
+
+/**
+ * Document formats produced client-side
+ */
+export const CLIENT_DOCUMENT_FORMATS: DocumentFormat[] = ['docx', 'html', 'md', 'txt'];
+
+/**
+ * Document formats produced server-side
+ */
+export const SERVER_DOCUMENT_FORMATS: DocumentFormat[] = ['pdf', 'docx', 'html', 'md', 'txt'];
+
 /**
  * MIME type to format mapping
  */
@@ -68,12 +308,22 @@ export const MIME_TYPE_MAP: MimeTypeMap = {
   'image/tiff': 'tiff',
   'image/bmp': 'bmp',
   'image/x-ms-bmp': 'bmp',
+  'image/heic': 'heic',
+  'image/heif': 'heic',
+  'image/heic-sequence': 'heic',
+  'image/heif-sequence': 'heic',
+  'image/svg+xml': 'svg',
 };
 
+/**
+ * MIME types clients send when they do not know the file type
+ */
+export const GENERIC_MIME_TYPES = ['application/octet-stream', 'binary/octet-stream'];
+
 /**
  * Format to MIME type mapping
  */
-export const FORMAT_TO_MIME: Record<ImageFormat, string> = {
+export const FORMAT_TO_MIME: Record<FileFormat, string> = {
   jpg: 'image/jpeg',
   jpeg: 'image/jpeg',
   png: 'image/png',
@@ -82,6 +332,39 @@ export const FORMAT_TO_MIME: Record<ImageFormat, string> = {
   avif: 'image/avif',
   tiff: 'image/tiff',
   bmp: 'image/bmp',
+  heic: 'image/heic',
+  svg: 'image/svg+xml',
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  html: 'text/html',
+  md: 'text/markdown',
+  txt: 'text/plain',
+};
+
+/**
+ * Document MIME type to format mapping
+ */
+export const DOCUMENT_MIME_TYPE_MAP: Record<string, DocumentFormat> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'text/html': 'html',
+  'text/markdown': 'md',
+  'text/x-markdown': 'md',
+  'text/plain': 'txt',
+};
+
+/**
+ * Document file extension to format mapping
+ */
+export const DOCUMENT_EXTENSION_MAP: Record<string, DocumentFormat> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  html: 'html',
+  htm: 'html',
+  md: 'md',
+  markdown: 'md',
+  txt: 'txt',
+  log: 'txt',
 };
 
 /**
@@ -97,11 +380,15 @@ export const EXTENSION_MAP: Record<string, ImageFormat> = {
   tiff: 'tiff',
   tif: 'tiff',
   bmp: 'bmp',
+  heic: 'heic',
+  heif: 'heic',
+  svg: 'svg',
 };
 
 /**
  * File magic bytes (signatures) for format detection
  * Used for additional validation beyond MIME type
+ * (SVG is text without a signature; detectMimeTypeFromBuffer looks for its root element)
  */
 export const MAGIC_BYTES: FileMagicBytes[] = [
   {
@@ -139,6 +426,28 @@ export const MAGIC_BYTES: FileMagicBytes[] = [
     signature: [0x42, 0x4d], // BM
     offset: 0,
   },
+  {
+    format: 'avif',
+    signature: [0x66, 0x74, 0x79, 0x70], // ftyp (ISO-BMFF)
+    offset: 4,
+    brands: AVIF_BRANDS,
+  },
+  {
+    format: 'heic',
+    signature: [0x66, 0x74, 0x79, 0x70], // ftyp (ISO-BMFF)
+    offset: 4,
+    brands: [...HEIC_BRANDS, ...HEIF_BRANDS],
+  },
+  {
+    format: 'docx',
+    signature: [0x50, 0x4b, 0x03, 0x04], // PK (ZIP container with word/ parts)
+    offset: 0,
+  },
+  {
+    format: 'pdf',
+    signature: [0x25, 0x50, 0x44, 0x46], // %PDF
+    offset: 0,
+  },
 ];
 
 /**
@@ -149,13 +458,36 @@ export const LOSSY_FORMATS: ImageFormat[] = ['jpg', 'jpeg', 'webp', 'avif'];
 /**
  * Formats that support transparency
  */
-export const TRANSPARENT_FORMATS: ImageFormat[] = ['png', 'webp', 'gif', 'avif', 'tiff'];
+export const TRANSPARENT_FORMATS: ImageFormat[] = ['png', 'webp', 'gif', 'avif', 'tiff', 'bmp'];
+
+/**
+ * Formats Sharp can write as animations
+ * (libheif has no AVIF sequence encoder, so animated AVIF is not available)
+ */
+export const ANIMATED_FORMATS: ImageFormat[] = ['gif', 'webp'];
+
+/**
+ * Formats tried by outputFormat=auto, in order of preference when sizes tie
+ * (GIF is only used for animations)
+ */
+export const AUTO_OUTPUT_FORMATS: ImageFormat[] = ['avif', 'webp', 'jpg', 'png', 'gif'];
+
+/**
+ * Formats outputFormat=auto only picks when the Accept header lists them
+ * Browsers advertise AVIF and WebP support explicitly; JPEG, PNG and GIF are universal
+ */
+export const ACCEPT_NEGOTIATED_FORMATS: ImageFormat[] = ['avif', 'webp'];
 
 /**
  * Allowed MIME types (for validation)
  */
 export const ALLOWED_MIME_TYPES = Object.keys(MIME_TYPE_MAP);
 
+/**
+ * Allowed document MIME types (for validation)
+ */
+export const ALLOWED_DOCUMENT_MIME_TYPES = Object.keys(DOCUMENT_MIME_TYPE_MAP);
+
 /**
  * Conversion capabilities matrix
  */
@@ -186,16 +518,21 @@ export const CONVERSION_MATRIX: FormatCapability[] = [
     to: ['jpg', 'jpeg', 'png', 'webp'],
     method: 'client',
   },
+  {
+    from: 'svg',
+    to: ['png', 'jpg', 'jpeg', 'webp'],
+    method: 'client',
+  },
 
   // Server-side only conversions
   {
     from: 'avif',
-    to: ['jpg', 'jpeg', 'png', 'webp'],
+    to: ['jpg', 'jpeg', 'png', 'webp', 'bmp'],
     method: 'server',
   },
   {
     from: 'tiff',
-    to: ['jpg', 'jpeg', 'png', 'webp', 'avif'],
+    to: ['jpg', 'jpeg', 'png', 'webp', 'avif', 'bmp'],
     method: 'server',
   },
   {
@@ -203,41 +540,165 @@ export const CONVERSION_MATRIX: FormatCapability[] = [
     to: ['jpg', 'jpeg', 'png', 'webp'],
     method: 'server',
   },
+  {
+    from: 'heic',
+    to: ['jpg', 'jpeg', 'png', 'webp', 'avif', 'tiff', 'bmp'],
+    method: 'server',
+  },
+  {
+    from: 'svg',
+    to: ['png', 'jpg', 'jpeg', 'webp', 'avif', 'tiff', 'bmp'],
+    method: 'server',
+  },
 
   // Server-side enhanced conversions (with advanced options)
   {
     from: 'jpg',
-    to: ['avif', 'tiff'],
+    to: ['avif', 'tiff', 'bmp'],
+    method: 'server',
+  },
+  {
+    from: 'png',
+    to: ['avif', 'tiff', 'bmp'],
+    method: 'server',
+  },
+  {
+    from: 'webp',
+    to: ['avif', 'tiff', 'bmp'],
+    method: 'server',
+  },
+  {
+    from: 'gif',
+    to: ['avif', 'bmp'], // AVIF keeps the first frame only
+    method: 'server',
+  },
+
+  // Same-format re-encoding (server-side: recompression, resizing, animation re-timing)
+  {
+    from: 'jpg',
+    to: ['jpg', 'jpeg'],
+    method: 'server',
+  },
+  {
+    from: 'jpeg',
+    to: ['jpg', 'jpeg'],
     method: 'server',
   },
   {
     from: 'png',
-    to: ['avif', 'tiff'],
+    to: ['png'],
+    method: 'server',
+  },
+  {
+    from: 'gif',
+    to: ['gif'],
     method: 'server',
   },
   {
     from: 'webp',
-    to: ['avif', 'tiff'],
+    to: ['webp'],
+    method: 'server',
+  },
+  {
+    from: 'avif',
+    to: ['avif'],
+    method: 'server',
+  },
+
+  // Document conversions (mammoth runs in the browser and on the server)
+  {
+    from: 'docx',
+    to: ['html', 'md', 'txt'],
+    method: 'client',
+  },
+
+  // PDF page rendering (server-side using pdf.js)
+  {
+    from: 'pdf',
+    to: ['png', 'jpg', 'jpeg', 'webp'],
+    method: 'server',
+  },
+
+  // Text to PDF (pdf-lib runs in the browser and on the server)
+  {
+    from: 'txt',
+    to: ['pdf'],
+    method: 'client',
+  },
+  {
+    from: 'md',
+    to: ['pdf'],
+    method: 'client',
+  },
+
+  // Image to PDF (server-side using pdf-lib)
+  {
+    from: 'jpg',
+    to: ['pdf'],
+    method: 'server',
+  },
+  {
+    from: 'png',
+    to: ['pdf'],
+    method: 'server',
+  },
+  {
+    from: 'webp',
+    to: ['pdf'],
+    method: 'server',
+  },
+  {
+    from: 'gif',
+    to: ['pdf'],
+    method: 'server',
+  },
+  {
+    from: 'avif',
+    to: ['pdf'],
+    method: 'server',
+  },
+  {
+    from: 'tiff',
+    to: ['pdf'],
+    method: 'server',
+  },
+  {
+    from: 'heic',
+    to: ['pdf'],
+    method: 'server',
+  },
+  {
+    from: 'svg',
+    to: ['pdf'],
     method: 'server',
   },
 ];
 
 /**
  * Get complete format support information
+ * `limits` are the effective server limits; the built-in defaults otherwise
  */
-export function getFormatSupport(): FormatSupport {
+export function getFormatSupport(limits?: ConverterLimits): FormatSupport {
   return {
     formats: {
       image: {
         client: CLIENT_FORMATS,
         server: SERVER_FORMATS,
       },
+      document: {
+        client: CLIENT_DOCUMENT_FORMATS,
+        server: SERVER_DOCUMENT_FORMATS,
+      },
     },
     conversions: CONVERSION_MATRIX,
     limits: {
-      maxFileSize: MAX_FILE_SIZE,
-      maxDimensions: MAX_DIMENSION,
+      maxFileSize: limits?.maxFileSize ?? MAX_FILE_SIZE,
+      maxDimensions: limits?.maxDimension ?? MAX_DIMENSION,
       minDimensions: MIN_DIMENSION,
+      maxInputPixels: limits?.maxInputPixels ?? MAX_INPUT_PIXELS,
+      maxInputDimensions: limits?.maxInputDimension ?? MAX_INPUT_DIMENSION,
+      defaultQuality: limits?.defaultQuality ?? DEFAULT_QUALITY,
+      allowedMimeTypes: limits?.allowedMimeTypes ?? ALLOWED_MIME_TYPES,
     },
   };
 }
@@ -245,7 +706,7 @@ export function getFormatSupport(): FormatSupport {
 /**
  * Get MIME type from format
  */
-export function getMimeType(format: ImageFormat): string {
+export function getMimeType(format: FileFormat): string {
   return FORMAT_TO_MIME[format] || 'application/octet-stream';
 }
 
@@ -256,6 +717,21 @@ export function getFormatFromMime(mimeType: string): ImageFormat | null {
   return MIME_TYPE_MAP[mimeType.toLowerCase()] || null;
 }
 
+/**
+ * Get document format from MIME type
+ */
+export function getDocumentFormatFromMime(mimeType: string): DocumentFormat | null {
+  return DOCUMENT_MIME_TYPE_MAP[mimeType.toLowerCase()] || null;
+}
+
+/**
+ * Get document format from file extension
+ */
+export function getDocumentFormatFromExtension(filename: string): DocumentFormat | null {
+  const ext = filename.split('.').pop()?.toLowerCase();
+  return ext ? DOCUMENT_EXTENSION_MAP[ext] || null : null;
+}
+
 /**
  * Get format from file extension
  */
@@ -271,12 +747,19 @@ export function isSupportedFormat(format: string): boolean {
   return SERVER_FORMATS.includes(format as ImageFormat);
 }
 
+/**
+ * Check if format is a supported document format
+ */
+export function isDocumentFormat(format: string): format is DocumentFormat {
+  return SERVER_DOCUMENT_FORMATS.includes(format as DocumentFormat);
+}
+
 /**
  * Check if conversion is supported
  */
 export function isConversionSupported(
-  from: ImageFormat,
-  to: ImageFormat,
+  from: FileFormat,
+  to: FileFormat,
 ): boolean {
   return CONVERSION_MATRIX.some(
     (cap) => cap.from === from && cap.to.includes(to),
@@ -297,12 +780,19 @@ export function supportsTransparency(format: ImageFormat): boolean {
   return TRANSPARENT_FORMATS.includes(format);
 }
 
+/**
+ * Check if format supports animation
+ */
+export function supportsAnimation(format: ImageFormat): boolean {
+  return ANIMATED_FORMATS.includes(format);
+}
+
 /**
  * Get recommended conversion method for format pair
  */
 export function getConversionMethod(
-  from: ImageFormat,
-  to: ImageFormat,
+  from: FileFormat,
+  to: FileFormat,
 ): 'client' | 'server' | null {
   const capability = CONVERSION_MATRIX.find(
     (cap) => cap.from === from && cap.to.includes(to),
@@ -313,8 +803,8 @@ export function getConversionMethod(
 /**
  * Get all possible output formats for a given input format
  */
-export function getPossibleOutputFormats(from: ImageFormat): ImageFormat[] {
-  const formats = new Set<ImageFormat>();
+export function getPossibleOutputFormats(from: FileFormat): FileFormat[] {
+  const formats = new Set<FileFormat>();
 
   CONVERSION_MATRIX.forEach((cap) => {
     if (cap.from === from) {
@@ -325,18 +815,76 @@ export function getPossibleOutputFormats(from: ImageFormat): ImageFormat[] {
   return Array.from(formats);
 }
 
+/**
+ * Get the formats outputFormat=auto may try for an input format
+ * Without an Accept header (API clients), every candidate is allowed
+ */
+export function getAutoFormatCandidates(
+  from: FileFormat,
+  accept: string | null,
+): ImageFormat[] {
+  const possible = getPossibleOutputFormats(from);
+  const accepted = parseAcceptHeader(accept);
+
+  return AUTO_OUTPUT_FORMATS.filter((format) => {
+    if (!possible.includes(format)) {
+      return false;
+    }
+
+    if (!accepted) {
+      return true;
+    }
+
+    const quality = accepted.get(getMimeType(format));
+    if (quality !== undefined) {
+      return quality > 0;
+    }
+
+    // Wildcards only cover the universally supported formats
+    const wildcard = accepted.get('image/*') ?? accepted.get('*/*');
+    return !ACCEPT_NEGOTIATED_FORMATS.includes(format) && wildcard !== undefined && wildcard > 0;
+  });
+}
+
+/**
+ * Parse an Accept header into MIME type -> q value
+ * Returns null if there is no header
+ */
+function parseAcceptHeader(accept: string | null): Map<string, number> | null {
+  if (!accept?.trim()) {
+    return null;
+  }
+
+  const types = new Map<string, number>();
+
+  for (const entry of accept.split(',')) {
+    const [type, ...params] = entry.trim().toLowerCase().split(';');
+    const qParam = params.find((param) => param.trim().startsWith('q='));
+    const quality = qParam ? parseFloat(qParam.trim().slice(2)) : 1;
+
+    if (type) {
+      types.set(type.trim(), Number.isNaN(quality) ? 1 : quality);
+    }
+  }
+
+  return types;
+}
+
 /**
  * Normalize format (jpeg -> jpg)
  */
 export function normalizeFormat(format: string): ImageFormat {
   const normalized = format.toLowerCase();
+  if (normalized === 'heif') {
+    return 'heic';
+  }
   return normalized === 'jpeg' ? 'jpg' : (normalized as ImageFormat);
 }
 
 /**
  * Get file extension for format
  */
-export function getExtensionForFormat(format: ImageFormat): string {
+export function getExtensionForFormat(format: FileFormat): string {
   return format === 'jpeg' ? 'jpg' : format;
 }
 
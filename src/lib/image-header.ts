@@ -0,0 +1,255 @@
+/**
+ * Header-only image dimension parsing
+ * Reads the width and height each format declares without decoding pixels,
+ * so oversized images can be rejected before a decoder allocates them.
+ * Works on plain bytes, in the browser and on the server
+ */
+
+import type { ImageFormat } from './types';
+import { DEFAULT_SVG_DENSITY, getFormatFromMime } from './formats';
+import { detectMimeTypeFromBuffer } from './utils';
+import { readImageExtents } from './isobmff';
+
+/**
+ * Bytes to read from the start of a file to find its dimensions
+ * JPEG frame headers follow any EXIF/ICC segments, which can be large
+ */
+export const IMAGE_HEADER_READ_SIZE = 512 * 1024;
+
+/**
+ * Declared image dimensions
+ */
+export interface ImageDimensions {
+  format: ImageFormat;
+  width: number;
+  height: number;
+}
+
+/**
+ * SVG length units in pixels at the default density (72 DPI, 1pt = 1px)
+ */
+const SVG_UNITS: Record<string, number> = {
+  '': 1,
+  px: 1,
+  pt: 1,
+  pc: 12,
+  in: DEFAULT_SVG_DENSITY,
+  cm: DEFAULT_SVG_DENSITY / 2.54,
+  mm: DEFAULT_SVG_DENSITY / 25.4,
+};
+
+/**
+ * Read the dimensions an image declares in its header
+ * SVG is measured at `density` DPI, as it will be rasterized.
+ * Returns null if the format is not recognised or the header is not in the bytes
+ * available (e.g. a TIFF whose first directory is at the end of the file)
+ */
+export function readImageDimensions(
+  bytes: Uint8Array,
+  density: number = DEFAULT_SVG_DENSITY,
+): ImageDimensions | null {
+  const mimeType = detectMimeTypeFromBuffer(bytes);
+  const format = mimeType ? getFormatFromMime(mimeType) : null;
+  if (!format) {
+    return null;
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let size: { width: number; height: number } | null;
+
+  try {
+    switch (format) {
+      case 'png':
+        // IHDR is always the first chunk
+        size = { width: view.getUint32(16), height: view.getUint32(20) };
+        break;
+      case 'gif':
+        // Logical screen size; libvips renders every frame on this canvas
+        size = { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+        break;
+      case 'jpg':
+      case 'jpeg':
+        size = readJpegSize(view);
+        break;
+      case 'webp':
+        size = readWebpSize(view);
+        break;
+      case 'tiff':
+        size = readTiffSize(view);
+        break;
+      case 'bmp':
+        size = readBmpSize(view);
+        break;
+      case 'avif':
+      case 'heic':
+        size = readImageExtents(bytes);
+        break;
+      case 'svg':
+        size = readSvgSize(bytes, density);
+        break;
+      default:
+        size = null;
+    }
+  } catch {
+    // Truncated header (DataView read out of range)
+    size = null;
+  }
+
+  return size ? { format, ...size } : null;
+}
+
+/**
+ * Read the frame size from the first SOF segment of a JPEG
+ */
+function readJpegSize(view: DataView): { width: number; height: number } | null {
+  let offset = 2;
+
+  while (offset + 4 <= view.byteLength) {
+    if (view.getUint8(offset) !== 0xff) {
+      return null;
+    }
+
+    const marker = view.getUint8(offset + 1);
+
+    // Fill bytes, and markers without a length (TEM, RSTn)
+    if (marker === 0xff) {
+      offset += 1;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2;
+      continue;
+    }
+
+    // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+    }
+
+    // Image data starts without a frame header
+    if (marker === 0xda || marker === 0xd9) {
+      return null;
+    }
+
+    offset += 2 + view.getUint16(offset + 2);
+  }
+
+  return null;
+}
+
+/**
+ * Read the canvas size of a WebP (lossy, lossless or extended)
+ */
+function readWebpSize(view: DataView): { width: number; height: number } | null {
+  const chunk = String.fromCharCode(
+    view.getUint8(12),
+    view.getUint8(13),
+    view.getUint8(14),
+    view.getUint8(15),
+  );
+
+  switch (chunk) {
+    case 'VP8X': {
+      // 24-bit canvas size minus one
+      const width = view.getUint16(24, true) + (view.getUint8(26) << 16) + 1;
+      const height = view.getUint16(27, true) + (view.getUint8(29) << 16) + 1;
+      return { width, height };
+    }
+    case 'VP8L': {
+      // 14-bit sizes minus one, packed after the 0x2f signature
+      const bits = view.getUint32(21, true);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    case 'VP8 ':
+      // Key frame header: 3-byte frame tag, 9d 01 2a, then 14-bit sizes
+      return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Read ImageWidth and ImageLength from the first directory of a TIFF
+ */
+function readTiffSize(view: DataView): { width: number; height: number } | null {
+  const littleEndian = view.getUint8(0) === 0x49;
+  const directory = view.getUint32(4, littleEndian);
+  const entries = view.getUint16(directory, littleEndian);
+
+  let width: number | null = null;
+  let height: number | null = null;
+
+  for (let i = 0; i < entries; i++) {
+    const entry = directory + 2 + i * 12;
+    const tag = view.getUint16(entry, littleEndian);
+    if (tag !== 256 && tag !== 257) {
+      continue;
+    }
+
+    // SHORT (3) or LONG (4), stored inline
+    const type = view.getUint16(entry + 2, littleEndian);
+    const value =
+      type === 3 ? view.getUint16(entry + 8, littleEndian) : view.getUint32(entry + 8, littleEndian);
+
+    if (tag === 256) {
+      width = value;
+    } else {
+      height = value;
+    }
+  }
+
+  return width !== null && height !== null ? { width, height } : null;
+}
+
+/**
+ * Read the size from a BMP info header
+ */
+function readBmpSize(view: DataView): { width: number; height: number } | null {
+  const headerSize = view.getUint32(14, true);
+
+  // BITMAPCOREHEADER (OS/2) uses 16-bit dimensions
+  if (headerSize === 12) {
+    return { width: view.getUint16(18, true), height: view.getUint16(20, true) };
+  }
+
+  return {
+    width: Math.abs(view.getInt32(18, true)),
+    height: Math.abs(view.getInt32(22, true)), // Negative height = top-down rows
+  };
+}
+
+/**
+ * Read the size of an SVG from the width and height of its root element,
+ * falling back to the viewBox; relative units (%, em) are not resolved
+ */
+function readSvgSize(bytes: Uint8Array, density: number): { width: number; height: number } | null {
+  const text = new TextDecoder().decode(bytes.subarray(0, IMAGE_HEADER_READ_SIZE));
+  const root = /<svg[\s>][^>]*>/i.exec(text)?.[0];
+  if (!root) {
+    return null;
+  }
+
+  const attribute = (name: string) =>
+    new RegExp(`\\s${name}\\s*=\\s*(["'])(.*?)\\1`, 'i').exec(root)?.[2].trim();
+
+  const viewBox = attribute('viewBox')?.split(/[\s,]+/).map(Number);
+  const [boxWidth, boxHeight] = viewBox?.length === 4 ? viewBox.slice(2) : [NaN, NaN];
+
+  const length = (value: string | undefined, fallback: number) => {
+    const match = value && /^([\d.]+(?:e[+-]?\d+)?)\s*([a-z]*)$/i.exec(value);
+    if (!match) {
+      return fallback;
+    }
+    const unit = SVG_UNITS[match[2].toLowerCase()];
+    return unit === undefined ? NaN : parseFloat(match[1]) * unit;
+  };
+
+  const width = length(attribute('width'), boxWidth);
+  const height = length(attribute('height'), boxHeight);
+  if (!Number.isFinite(width) || !Number.isFinite(height)) {
+    return null;
+  }
+
+  const scale = density / DEFAULT_SVG_DENSITY;
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+}
@@ -0,0 +1,355 @@
+/**
+ * Parsers for embedded image metadata
+ * Reads the raw EXIF and ICC blocks Sharp exposes, without decoding pixels
+ */
+
+import type { ExifInfo, GpsPosition } from './types';
+
+/**
+ * EXIF field types and their component sizes in bytes
+ */
+const EXIF_TYPE_SIZES: Record<number, number> = {
+  1: 1, // BYTE
+  2: 1, // ASCII
+  3: 2, // SHORT
+  4: 4, // LONG
+  5: 8, // RATIONAL
+  7: 1, // UNDEFINED
+  9: 4, // SLONG
+  10: 8, // SRATIONAL
+};
+
+/**
+ * Upper bound on entries per IFD (guards against corrupt offsets)
+ */
+const MAX_IFD_ENTRIES = 512;
+
+/**
+ * EXIF tags read from each IFD
+ */
+const TAGS = {
+  make: 0x010f,
+  model: 0x0110,
+  orientation: 0x0112,
+  software: 0x0131,
+  dateTime: 0x0132,
+  exifIfd: 0x8769,
+  gpsIfd: 0x8825,
+  exposureTime: 0x829a,
+  fNumber: 0x829d,
+  iso: 0x8827,
+  dateTimeOriginal: 0x9003,
+  dateTimeDigitized: 0x9004,
+  offsetTime: 0x9010,
+  offsetTimeOriginal: 0x9011,
+  offsetTimeDigitized: 0x9012,
+  focalLength: 0x920a,
+  lensModel: 0xa434,
+  gpsLatitudeRef: 0x0001,
+  gpsLatitude: 0x0002,
+  gpsLongitudeRef: 0x0003,
+  gpsLongitude: 0x0004,
+  gpsAltitudeRef: 0x0005,
+  gpsAltitude: 0x0006,
+} as const;
+
+/**
+ * Decoded IFD values keyed by tag
+ */
+type ExifValue = string | number | number[];
+type Ifd = Map<number, ExifValue>;
+
+/**
+ * Parse an EXIF block (with or without the "Exif\0\0" prefix)
+ * Returns null if the block is not valid TIFF-structured EXIF
+ */
+export function parseExif(buffer: Buffer): ExifInfo | null {
+  const start = buffer.subarray(0, 6).toString('latin1') === 'Exif\0\0' ? 6 : 0;
+  const tiff = buffer.subarray(start);
+
+  if (tiff.length < 8) {
+    return null;
+  }
+
+  const byteOrder = tiff.subarray(0, 2).toString('latin1');
+  if (byteOrder !== 'II' && byteOrder !== 'MM') {
+    return null;
+  }
+
+  const littleEndian = byteOrder === 'II';
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+
+  if (view.getUint16(2, littleEndian) !== 42) {
+    return null;
+  }
+
+  const ifd0 = readIfd(view, view.getUint32(4, littleEndian), littleEndian);
+  const exifIfd = readPointedIfd(view, ifd0, TAGS.exifIfd, littleEndian);
+  const gpsIfd = readPointedIfd(view, ifd0, TAGS.gpsIfd, littleEndian);
+
+  const info: ExifInfo = {
+    make: getString(ifd0, TAGS.make),
+    model: getString(ifd0, TAGS.model),
+    lensModel: getString(exifIfd, TAGS.lensModel),
+    software: getString(ifd0, TAGS.software),
+    orientation: getNumber(ifd0, TAGS.orientation),
+    dateTime: toIsoTimestamp(
+      getString(ifd0, TAGS.dateTime),
+      getString(exifIfd, TAGS.offsetTime),
+    ),
+    dateTimeOriginal: toIsoTimestamp(
+      getString(exifIfd, TAGS.dateTimeOriginal),
+      getString(exifIfd, TAGS.offsetTimeOriginal),
+    ),
+    dateTimeDigitized: toIsoTimestamp(
+      getString(exifIfd, TAGS.dateTimeDigitized),
+      getString(exifIfd, TAGS.offsetTimeDigitized),
+    ),
+    exposureTime: getNumber(exifIfd, TAGS.exposureTime),
+    fNumber: getNumber(exifIfd, TAGS.fNumber),
+    iso: getNumber(exifIfd, TAGS.iso),
+    focalLength: getNumber(exifIfd, TAGS.focalLength),
+    gps: readGpsPosition(gpsIfd),
+  };
+
+  // Drop fields that were not present
+  for (const key of Object.keys(info) as (keyof ExifInfo)[]) {
+    if (info[key] === undefined) {
+      delete info[key];
+    }
+  }
+
+  return info;
+}
+
+/**
+ * Get the description of an ICC profile (v2 'desc' or v4 'mluc' tag)
+ */
+export function getIccProfileName(icc: Buffer): string | undefined {
+  if (icc.length < 132) {
+    return undefined;
+  }
+
+  const tagCount = icc.readUInt32BE(128);
+
+  for (let i = 0; i < tagCount && 132 + (i + 1) * 12 <= icc.length; i++) {
+    const entry = 132 + i * 12;
+    if (icc.toString('latin1', entry, entry + 4) !== 'desc') {
+      continue;
+    }
+
+    const offset = icc.readUInt32BE(entry + 4);
+    const size = icc.readUInt32BE(entry + 8);
+    if (offset + size > icc.length || size < 12) {
+      return undefined;
+    }
+
+    const type = icc.toString('latin1', offset, offset + 4);
+
+    if (type === 'desc') {
+      const length = icc.readUInt32BE(offset + 8);
+      return cleanString(icc.toString('latin1', offset + 12, Math.min(offset + 12 + length, offset + size)));
+    }
+
+    if (type === 'mluc' && size >= 28) {
+      // First localised record: language, country, length, offset
+      const recordLength = icc.readUInt32BE(offset + 20);
+      const recordOffset = icc.readUInt32BE(offset + 24);
+      const textStart = offset + recordOffset;
+      const textEnd = Math.min(textStart + recordLength, offset + size);
+
+      let text = '';
+      for (let pos = textStart; pos + 1 < textEnd; pos += 2) {
+        text += String.fromCharCode(icc.readUInt16BE(pos));
+      }
+      return cleanString(text);
+    }
+
+    return undefined;
+  }
+
+  return undefined;
+}
+
+/**
+ * Read the IFD at an offset
+ */
+function readIfd(view: DataView, offset: number, littleEndian: boolean): Ifd {
+  const ifd: Ifd = new Map();
+
+  if (offset < 8 || offset + 2 > view.byteLength) {
+    return ifd;
+  }
+
+  const count = Math.min(view.getUint16(offset, littleEndian), MAX_IFD_ENTRIES);
+
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12;
+    if (entry + 12 > view.byteLength) {
+      break;
+    }
+
+    const tag = view.getUint16(entry, littleEndian);
+    const type = view.getUint16(entry + 2, littleEndian);
+    const components = view.getUint32(entry + 4, littleEndian);
+    const componentSize = EXIF_TYPE_SIZES[type];
+
+    if (!componentSize) {
+      continue;
+    }
+
+    // Values up to 4 bytes are stored inline, larger ones at an offset
+    const byteLength = components * componentSize;
+    const valueOffset =
+      byteLength <= 4 ? entry + 8 : view.getUint32(entry + 8, littleEndian);
+
+    if (valueOffset + byteLength > view.byteLength) {
+      continue;
+    }
+
+    ifd.set(tag, readValue(view, type, valueOffset, components, littleEndian));
+  }
+
+  return ifd;
+}
+
+/**
+ * Read a sub-IFD referenced by a pointer tag
+ */
+function readPointedIfd(
+  view: DataView,
+  parent: Ifd,
+  tag: number,
+  littleEndian: boolean,
+): Ifd {
+  const pointer = getNumber(parent, tag);
+  return pointer ? readIfd(view, pointer, littleEndian) : new Map();
+}
+
+/**
+ * Decode a field value
+ */
+function readValue(
+  view: DataView,
+  type: number,
+  offset: number,
+  components: number,
+  littleEndian: boolean,
+): ExifValue {
+  if (type === 2) {
+    let text = '';
+    for (let i = 0; i < components; i++) {
+      text += String.fromCharCode(view.getUint8(offset + i));
+    }
+    return text;
+  }
+
+  const values: number[] = [];
+
+  for (let i = 0; i < components; i++) {
+    switch (type) {
+      case 3:
+        values.push(view.getUint16(offset + i * 2, littleEndian));
+        break;
+      case 4:
+        values.push(view.getUint32(offset + i * 4, littleEndian));
+        break;
+      case 9:
+        values.push(view.getInt32(offset + i * 4, littleEndian));
+        break;
+      case 5:
+      case 10: {
+        const read = type === 5 ? 'getUint32' : 'getInt32';
+        const numerator = view[read](offset + i * 8, littleEndian);
+        const denominator = view[read](offset + i * 8 + 4, littleEndian);
+        values.push(denominator === 0 ? 0 : numerator / denominator);
+        break;
+      }
+      default:
+        values.push(view.getUint8(offset + i));
+    }
+  }
+
+  return values.length === 1 ? values[0] : values;
+}
+
+/**
+ * Get a string tag value
+ */
+function getString(ifd: Ifd, tag: number): string | undefined {
+  const value = ifd.get(tag);
+  return typeof value === 'string' ? cleanString(value) : undefined;
+}
+
+/**
+ * Get a single numeric tag value
+ */
+function getNumber(ifd: Ifd, tag: number): number | undefined {
+  const value = ifd.get(tag);
+  if (typeof value === 'number') {
+    return Math.round(value * 1e6) / 1e6;
+  }
+  return Array.isArray(value) && value.length > 0 ? value[0] : undefined;
+}
+
+/**
+ * Convert GPS tags to decimal degrees
+ */
+function readGpsPosition(ifd: Ifd): GpsPosition | undefined {
+  const latitude = toDegrees(ifd.get(TAGS.gpsLatitude));
+  const longitude = toDegrees(ifd.get(TAGS.gpsLongitude));
+
+  if (latitude === undefined || longitude === undefined) {
+    return undefined;
+  }
+
+  const position: GpsPosition = {
+    latitude: getString(ifd, TAGS.gpsLatitudeRef) === 'S' ? -latitude : latitude,
+    longitude: getString(ifd, TAGS.gpsLongitudeRef) === 'W' ? -longitude : longitude,
+  };
+
+  const altitude = getNumber(ifd, TAGS.gpsAltitude);
+  if (altitude !== undefined) {
+    position.altitude = getNumber(ifd, TAGS.gpsAltitudeRef) === 1 ? -altitude : altitude;
+  }
+
+  return position;
+}
+
+/**
+ * Convert degrees/minutes/seconds rationals to decimal degrees
+ */
+function toDegrees(value: ExifValue | undefined): number | undefined {
+  if (!Array.isArray(value) || value.length !== 3) {
+    return undefined;
+  }
+
+  const [degrees, minutes, seconds] = value;
+  return Math.round((degrees + minutes / 60 + seconds / 3600) * 1e7) / 1e7;
+}
+
+/**
+ * Convert an EXIF timestamp ("YYYY:MM:DD HH:MM:SS") to ISO 8601
+ * The UTC offset is appended when the matching OffsetTime tag is present
+ */
+function toIsoTimestamp(
+  value: string | undefined,
+  offset: string | undefined,
+): string | undefined {
+  const match = value?.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+  if (!match) {
+    return undefined;
+  }
+
+  const [, year, month, day, hours, minutes, seconds] = match;
+  const zone = offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : '';
+  return `${year}-${month}-${day}T${hours}:${minutes}:${seconds}${zone}`;
+}
+
+/**
+ * Trim NUL padding and whitespace from a stored string
+ */
+function cleanString(value: string): string | undefined {
+  const cleaned = value.replace(/\0+$/g, '').replace(/\0/g, '').trim();
+  return cleaned || undefined;
+}
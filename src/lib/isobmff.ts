@@ -0,0 +1,178 @@
+/**
+ * ISO base media file format (ISO-BMFF) parsing
+ * AVIF and HEIC/HEIF share the container; the brands in the leading `ftyp`
+ * box say which codec the images use
+ */
+
+/**
+ * Brands identifying AV1 images and sequences
+ */
+export const AVIF_BRANDS = ['avif', 'avis'];
+
+/**
+ * Brands identifying HEVC images and sequences
+ */
+export const HEIC_BRANDS = ['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx', 'hevm', 'hevs'];
+
+/**
+ * Generic HEIF brands; the codec is given by a compatible brand, if any
+ */
+export const HEIF_BRANDS = ['mif1', 'msf1'];
+
+/**
+ * Contents of an `ftyp` box
+ */
+export interface FileTypeBox {
+  majorBrand: string;
+  minorVersion: number;
+  compatibleBrands: string[];
+}
+
+/**
+ * Read the `ftyp` box at the start of an ISO-BMFF file
+ * Compatible brands are limited to the bytes available (the box may be truncated)
+ * Returns null if the bytes do not start with an `ftyp` box
+ */
+export function readFileTypeBox(bytes: Uint8Array): FileTypeBox | null {
+  if (bytes.length < 16 || readFourCC(bytes, 4) !== 'ftyp') {
+    return null;
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const size = view.getUint32(0);
+
+  // Box sizes of 0 (to end of file) and 1 (64-bit size) are not used for ftyp
+  if (size < 16 || size % 4 !== 0) {
+    return null;
+  }
+
+  const end = Math.min(size, bytes.length);
+  const compatibleBrands: string[] = [];
+  for (let offset = 16; offset + 4 <= end; offset += 4) {
+    compatibleBrands.push(readFourCC(bytes, offset));
+  }
+
+  return {
+    majorBrand: readFourCC(bytes, 8),
+    minorVersion: view.getUint32(12),
+    compatibleBrands,
+  };
+}
+
+/**
+ * Get the image format of an ISO-BMFF file from its brands
+ * The major brand wins; otherwise the first AVIF or HEIC compatible brand is used,
+ * and generic HEIF without either is treated as HEIC
+ */
+export function getIsoBmffFormat(bytes: Uint8Array): 'avif' | 'heic' | null {
+  const box = readFileTypeBox(bytes);
+  if (!box) {
+    return null;
+  }
+
+  for (const brand of [box.majorBrand, ...box.compatibleBrands]) {
+    if (AVIF_BRANDS.includes(brand)) {
+      return 'avif';
+    }
+    if (HEIC_BRANDS.includes(brand)) {
+      return 'heic';
+    }
+  }
+
+  return [box.majorBrand, ...box.compatibleBrands].some((brand) => HEIF_BRANDS.includes(brand))
+    ? 'heic'
+    : null;
+}
+
+/**
+ * Get the largest image extents (`ispe` properties) in an ISO-BMFF file
+ * Walks meta > iprp > ipco without decoding; the largest extent covers the
+ * primary image, grid canvases and thumbnails alike
+ * Returns null if no extents are found in the bytes available
+ */
+export function readImageExtents(bytes: Uint8Array): { width: number; height: number } | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const meta = findBox(view, 0, bytes.length, 'meta');
+  if (!meta) {
+    return null;
+  }
+
+  // meta is a full box: 4 bytes of version and flags precede its children
+  const iprp = findBox(view, meta.start + 4, meta.end, 'iprp');
+  const ipco = iprp && findBox(view, iprp.start, iprp.end, 'ipco');
+  if (!ipco) {
+    return null;
+  }
+
+  let largest: { width: number; height: number } | null = null;
+  for (const box of readBoxes(view, ipco.start, ipco.end)) {
+    if (box.type === 'ispe' && box.end - box.start >= 12) {
+      const width = view.getUint32(box.start + 4);
+      const height = view.getUint32(box.start + 8);
+      if (!largest || width * height > largest.width * largest.height) {
+        largest = { width, height };
+      }
+    }
+  }
+
+  return largest;
+}
+
+/**
+ * Find the first box of a type between two offsets
+ */
+function findBox(
+  view: DataView,
+  start: number,
+  end: number,
+  type: string,
+): { start: number; end: number } | null {
+  return readBoxes(view, start, end).find((box) => box.type === type) || null;
+}
+
+/**
+ * List the boxes between two offsets (`start`/`end` bound each box's payload)
+ * Stops at a truncated or malformed box
+ */
+function readBoxes(
+  view: DataView,
+  start: number,
+  end: number,
+): { type: string; start: number; end: number }[] {
+  const boxes: { type: string; start: number; end: number }[] = [];
+  const bytes = new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    let headerSize = 8;
+
+    if (size === 1) {
+      // 64-bit size; anything past 2^53 is not a real upload
+      if (offset + 16 > end) {
+        break;
+      }
+      size = view.getUint32(offset + 8) * 2 ** 32 + view.getUint32(offset + 12);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset; // Extends to the end of the enclosing box
+    }
+
+    if (size < headerSize) {
+      break;
+    }
+
+    const boxEnd = Math.min(offset + size, end);
+    boxes.push({ type: readFourCC(bytes, offset + 4), start: offset + headerSize, end: boxEnd });
+    offset += size;
+  }
+
+  return boxes;
+}
+
+/**
+ * Read a four-character code
+ */
+function readFourCC(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + 4));
+}
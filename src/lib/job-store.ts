@@ -0,0 +1,220 @@
+/**
+ * Storage backends for async conversion jobs
+ * In-memory by default, with a filesystem option for multi-process deployments
+ *
+ * Either way the queue of pending jobs lives in the process that accepted
+ * them. Jobs still pending when that process restarts are not resumed; they
+ * stay pending until they expire, and clients must resubmit them.
+ */
+
+import { promises as fs, createReadStream } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Readable } from 'stream';
+import type { ConversionJob, JobStore } from './types';
+
+/**
+ * Default directory for the filesystem job store
+ */
+export const DEFAULT_JOB_STORE_DIR = join(tmpdir(), 'web-converter-jobs');
+
+/**
+ * Maximum total size of results held by the in-memory store (256MB)
+ * The oldest results are dropped first once it is exceeded
+ */
+export const MAX_MEMORY_RESULT_BYTES = 256 * 1024 * 1024;
+
+/**
+ * Job IDs are generated with crypto.randomUUID()
+ * Anything else is rejected before touching storage
+ */
+const JOB_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Check if a job ID is well-formed
+ */
+export function isValidJobId(jobId: string): boolean {
+  return JOB_ID_PATTERN.test(jobId);
+}
+
+/**
+ * Create in-memory job store
+ * Results are evicted oldest first to stay within `maxResultBytes`
+ */
+export function createMemoryJobStore(
+  maxResultBytes: number = MAX_MEMORY_RESULT_BYTES,
+): JobStore {
+  const jobs = new Map<string, ConversionJob>();
+  const results = new Map<string, Buffer>();
+  let resultBytes = 0;
+
+  const deleteResult = (jobId: string) => {
+    const data = results.get(jobId);
+    if (data) {
+      resultBytes -= data.length;
+      results.delete(jobId);
+    }
+  };
+
+  return {
+    async get(jobId) {
+      return jobs.get(jobId) || null;
+    },
+
+    async save(job) {
+      jobs.set(job.jobId, { ...job });
+    },
+
+    async delete(jobId) {
+      jobs.delete(jobId);
+      deleteResult(jobId);
+    },
+
+    async list() {
+      return Array.from(jobs.values());
+    },
+
+    async saveResult(jobId, data) {
+      deleteResult(jobId);
+
+      // Map iteration follows insertion order, so the first key is the oldest
+      for (const oldest of results.keys()) {
+        if (resultBytes + data.length <= maxResultBytes) {
+          break;
+        }
+        deleteResult(oldest);
+      }
+
+      results.set(jobId, data);
+      resultBytes += data.length;
+    },
+
+    async getResult(jobId) {
+      const data = results.get(jobId);
+      if (!data) {
+        return null;
+      }
+
+      return new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(new Uint8Array(data));
+          controller.close();
+        },
+      });
+    },
+  };
+}
+
+/**
+ * Create filesystem job store
+ * Each job is stored as `<id>.json` with its output in `<id>.bin`
+ * Any process can serve status and results, but a job only runs in the
+ * process that queued it
+ */
+export function createFileSystemJobStore(
+  directory: string = DEFAULT_JOB_STORE_DIR,
+): JobStore {
+  const ready = fs.mkdir(directory, { recursive: true });
+
+  const jobPath = (jobId: string) => {
+    if (!isValidJobId(jobId)) {
+      throw new Error('Invalid job ID');
+    }
+    return join(directory, `${jobId}.json`);
+  };
+
+  const resultPath = (jobId: string) => {
+    if (!isValidJobId(jobId)) {
+      throw new Error('Invalid job ID');
+    }
+    return join(directory, `${jobId}.bin`);
+  };
+
+  return {
+    async get(jobId) {
+      await ready;
+      try {
+        const content = await fs.readFile(jobPath(jobId), 'utf-8');
+        return JSON.parse(content) as ConversionJob;
+      } catch (error) {
+        return null;
+      }
+    },
+
+    async save(job) {
+      await ready;
+      // Write to a temp file first so readers never see a partial record
+      const path = jobPath(job.jobId);
+      const tempPath = `${path}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(job));
+      await fs.rename(tempPath, path);
+    },
+
+    async delete(jobId) {
+      await ready;
+      await fs.rm(jobPath(jobId), { force: true });
+      await fs.rm(resultPath(jobId), { force: true });
+    },
+
+    async list() {
+      await ready;
+      const entries = await fs.readdir(directory);
+      const jobs: ConversionJob[] = [];
+
+      for (const entry of entries) {
+        if (!entry.endsWith('.json')) {
+          continue;
+        }
+
+        const job = await this.get(entry.slice(0, -'.json'.length));
+        if (job) {
+          jobs.push(job);
+        }
+      }
+
+      return jobs;
+    },
+
+    async saveResult(jobId, data) {
+      await ready;
+      await fs.writeFile(resultPath(jobId), data);
+    },
+
+    async getResult(jobId) {
+      await ready;
+      const path = resultPath(jobId);
+
+      try {
+        await fs.access(path);
+      } catch (error) {
+        return null;
+      }
+
+      return Readable.toWeb(createReadStream(path)) as ReadableStream<Uint8Array>;
+    },
+  };
+}
+
+let activeStore: JobStore | null = null;
+
+/**
+ * Get the active job store
+ * Selected by JOB_STORE ("memory" or "filesystem") and JOB_STORE_DIR
+ */
+export function getJobStore(): JobStore {
+  if (!activeStore) {
+    activeStore =
+      process.env.JOB_STORE === 'filesystem'
+        ? createFileSystemJobStore(process.env.JOB_STORE_DIR || DEFAULT_JOB_STORE_DIR)
+        : createMemoryJobStore();
+  }
+
+  return activeStore;
+}
+
+/**
+ * Replace the active job store (e.g. with a custom backend)
+ */
+export function setJobStore(store: JobStore): void {
+  activeStore = store;
+}
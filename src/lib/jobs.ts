@@ -0,0 +1,263 @@
+/**
+ * Async conversion jobs
+ * Runs conversions in the background so long AVIF/TIFF encodes
+ * are not bound by the request timeout
+ */
+
+import { randomUUID } from 'crypto';
+import type {
+  ConversionJob,
+  ConversionOptions,
+  ConversionProgress,
+  ConverterLimits,
+} from './types';
+import { convertImageServer } from './server-converter';
+import { getJobStore } from './job-store';
+import { getLimits } from './config';
+import { getMimeType } from './formats';
+import { generateOutputFilename, getCurrentTimestamp, logError } from './utils';
+
+/**
+ * How long finished jobs and their results are kept (1 hour)
+ */
+export const JOB_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Maximum number of conversions running at once
+ */
+export const MAX_CONCURRENT_JOBS = 2;
+
+/**
+ * Maximum number of jobs waiting for a slot
+ */
+export const MAX_QUEUED_JOBS = 20;
+
+/**
+ * Maximum total size of the uploads waiting for a slot (200MB)
+ */
+export const MAX_QUEUED_BYTES = 200 * 1024 * 1024;
+
+/**
+ * Queued job waiting for a free slot
+ */
+interface QueuedJob {
+  jobId: string;
+  buffer: Buffer;
+  limits: ConverterLimits;
+}
+
+const queue: QueuedJob[] = [];
+let runningJobs = 0;
+let queuedJobs = 0;
+let queuedBytes = 0;
+
+/**
+ * Enqueue a conversion job
+ * `warnings` from reading the upload are reported with the job's progress
+ * Returns null when the queue already holds MAX_QUEUED_JOBS jobs or
+ * MAX_QUEUED_BYTES of uploads
+ */
+export async function enqueueConversionJob(
+  buffer: Buffer,
+  filename: string,
+  options: ConversionOptions,
+  warnings: string[] = [],
+  limits: ConverterLimits = getLimits(),
+): Promise<ConversionProgress | null> {
+  // Reserve the slot before any await so concurrent requests see it
+  if (queuedJobs >= MAX_QUEUED_JOBS || queuedBytes + buffer.length > MAX_QUEUED_BYTES) {
+    return null;
+  }
+  queuedJobs++;
+  queuedBytes += buffer.length;
+
+  const store = getJobStore();
+  await purgeExpiredJobs();
+
+  const now = new Date();
+  const job: ConversionJob = {
+    jobId: randomUUID(),
+    status: 'pending',
+    progress: 0,
+    filename: generateOutputFilename(filename, options.outputFormat),
+    mimeType: getMimeType(options.outputFormat),
+    options,
+    warnings: warnings.length > 0 ? warnings : undefined,
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + JOB_TTL_MS).toISOString(),
+  };
+
+  try {
+    await store.save(job);
+  } catch (error) {
+    releaseQueueSlot(buffer);
+    throw error;
+  }
+
+  queue.push({ jobId: job.jobId, buffer, limits });
+  drainQueue();
+
+  return toProgress(job);
+}
+
+/**
+ * Get job by ID (expired jobs are treated as missing)
+ */
+export async function getConversionJob(
+  jobId: string,
+): Promise<ConversionJob | null> {
+  const store = getJobStore();
+  const job = await store.get(jobId);
+
+  if (!job) {
+    return null;
+  }
+
+  if (isExpired(job)) {
+    await store.delete(jobId);
+    return null;
+  }
+
+  return job;
+}
+
+/**
+ * Get job output as a stream
+ */
+export async function getConversionJobResult(
+  jobId: string,
+): Promise<ReadableStream<Uint8Array> | null> {
+  return getJobStore().getResult(jobId);
+}
+
+/**
+ * Public progress view of a job
+ */
+export function toProgress(job: ConversionJob): ConversionProgress {
+  return {
+    jobId: job.jobId,
+    status: job.status,
+    progress: job.progress,
+    error: job.error,
+    resultUrl: job.resultUrl,
+    warnings: job.warnings,
+  };
+}
+
+/**
+ * Remove expired jobs from the store
+ */
+export async function purgeExpiredJobs(): Promise<void> {
+  const store = getJobStore();
+
+  try {
+    const jobs = await store.list();
+    for (const job of jobs) {
+      if (isExpired(job)) {
+        await store.delete(job.jobId);
+      }
+    }
+  } catch (error) {
+    logError(error, { operation: 'purgeExpiredJobs' });
+  }
+}
+
+/**
+ * Check if job has passed its expiry time
+ */
+function isExpired(job: ConversionJob): boolean {
+  return new Date(job.expiresAt).getTime() < Date.now();
+}
+
+/**
+ * Free a queue reservation once its job starts (or fails to enqueue)
+ */
+function releaseQueueSlot(buffer: Buffer): void {
+  queuedJobs--;
+  queuedBytes -= buffer.length;
+}
+
+/**
+ * Start queued jobs while slots are free
+ */
+function drainQueue(): void {
+  while (runningJobs < MAX_CONCURRENT_JOBS && queue.length > 0) {
+    const next = queue.shift()!;
+    releaseQueueSlot(next.buffer);
+    runningJobs++;
+
+    const { jobId } = next;
+
+    runJob(next)
+      .catch((error) => logError(error, { operation: 'runJob', jobId }))
+      .finally(() => {
+        runningJobs--;
+        drainQueue();
+      });
+  }
+}
+
+/**
+ * Run a single conversion job and record its outcome
+ * Errors once the job is processing mark it failed, so it does not stay
+ * processing until it expires
+ */
+async function runJob({ jobId, buffer, limits }: QueuedJob): Promise<void> {
+  const store = getJobStore();
+  const job = await store.get(jobId);
+
+  if (!job) {
+    return;
+  }
+
+  await updateJob(job, { status: 'processing', progress: 10 });
+
+  try {
+    const result = await convertImageServer(buffer, job.options, limits);
+
+    if (!result.success || !result.data) {
+      await updateJob(job, {
+        status: 'failed',
+        progress: 100,
+        error: result.error || 'Conversion failed',
+      });
+      return;
+    }
+
+    const data =
+      result.data instanceof Buffer ? result.data : Buffer.from(result.data as ArrayBuffer);
+    const warnings = [...(job.warnings || []), ...(result.warnings || [])];
+
+    await store.saveResult(jobId, data);
+    await updateJob(job, {
+      status: 'completed',
+      progress: 100,
+      resultUrl: `/api/jobs/${jobId}/result`,
+      metadata: result.metadata,
+      warnings: warnings.length > 0 ? warnings : undefined,
+    });
+  } catch (error) {
+    logError(error, { operation: 'runJob', jobId });
+
+    // A failed save may have left the completed fields on the job
+    await updateJob(job, {
+      status: 'failed',
+      progress: 100,
+      error: error instanceof Error ? error.message : 'Conversion failed',
+      resultUrl: undefined,
+      metadata: undefined,
+    });
+  }
+}
+
+/**
+ * Apply changes to a job and persist it
+ */
+async function updateJob(
+  job: ConversionJob,
+  changes: Partial<ConversionJob>,
+): Promise<void> {
+  Object.assign(job, changes, { updatedAt: getCurrentTimestamp() });
+  await getJobStore().save(job);
+}
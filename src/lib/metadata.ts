@@ -0,0 +1,81 @@
+/**
+ * Image metadata (EXIF/IPTC/XMP/ICC) handling options
+ * Shared by the server converter, which honours them, and the client,
+ * which can only strip (drawing to a canvas drops all metadata)
+ */
+
+import type {
+  ConversionMethod,
+  MetadataFields,
+  MetadataMode,
+  MetadataOption,
+  MetadataOptions,
+} from './types';
+
+/**
+ * Supported metadata modes
+ */
+export const METADATA_MODES: MetadataMode[] = ['strip', 'keep', 'keep-icc'];
+
+/**
+ * Maximum length of a written metadata field
+ */
+export const MAX_METADATA_FIELD_LENGTH = 512;
+
+/**
+ * EXIF IFD0 tag written for each field
+ */
+const EXIF_TAGS: Record<keyof MetadataFields, string> = {
+  copyright: 'Copyright',
+  author: 'Artist',
+  description: 'ImageDescription',
+};
+
+/**
+ * Normalise a metadata option to a mode plus fields
+ */
+export function resolveMetadataOption(
+  option: MetadataOption | undefined,
+): Required<Pick<MetadataOptions, 'mode'>> & MetadataFields {
+  if (!option) {
+    return { mode: 'strip' };
+  }
+
+  if (typeof option === 'string') {
+    return { mode: option };
+  }
+
+  return { ...option, mode: option.mode || 'strip' };
+}
+
+/**
+ * Build EXIF IFD0 tags for the fields to write
+ * Returns null if there is nothing to write
+ */
+export function getMetadataExifTags(
+  fields: MetadataFields,
+): Record<string, string> | null {
+  const tags: Record<string, string> = {};
+
+  for (const [field, tag] of Object.entries(EXIF_TAGS)) {
+    const value = fields[field as keyof MetadataFields];
+    if (value) {
+      tags[tag] = value;
+    }
+  }
+
+  return Object.keys(tags).length > 0 ? tags : null;
+}
+
+/**
+ * Get where a metadata option can be honoured
+ * Anything other than stripping needs Sharp
+ */
+export function getMetadataConversionMethod(
+  option: MetadataOption | undefined,
+): ConversionMethod {
+  const resolved = resolveMetadataOption(option);
+  return resolved.mode === 'strip' && !getMetadataExifTags(resolved)
+    ? 'client'
+    : 'server';
+}
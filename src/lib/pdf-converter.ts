@@ -0,0 +1,271 @@
+/**
+ * Server-side PDF generation using pdf-lib
+ * Embeds one or more images as pages; Sharp normalises inputs
+ * pdf-lib cannot embed directly (anything other than baseline JPEG/PNG)
+ */
+
+import { promises as fs } from 'fs';
+import sharp from 'sharp';
+import { PDFDocument } from 'pdf-lib';
+import type { PDFImage } from 'pdf-lib';
+import type {
+  ConversionResult,
+  PdfImageFit,
+  PdfOptions,
+  PdfOrientation,
+} from './types';
+import { DEFAULT_PDF_MARGIN, PDF_PAGE_SIZES } from './formats';
+import { getDecodePixelLimit } from './config';
+import { logError } from './utils';
+
+/**
+ * Points per inch
+ */
+const POINTS_PER_INCH = 72;
+
+/**
+ * Quality used when re-encoding photos for embedding
+ */
+const EMBED_JPEG_QUALITY = 92;
+
+let pdfFont: Promise<Buffer | undefined> | null = null;
+
+/**
+ * Image prepared for embedding
+ */
+interface PreparedImage {
+  data: Buffer;
+  type: 'jpg' | 'png';
+  width: number; // Pixels
+  height: number; // Pixels
+  density: number; // DPI
+}
+
+/**
+ * Create a PDF with one page per image
+ */
+export async function imagesToPdf(
+  images: Buffer[],
+  options: PdfOptions = {},
+): Promise<ConversionResult> {
+  try {
+    if (images.length === 0) {
+      throw new Error('At least one image is required');
+    }
+
+    const {
+      pageSize = 'a4',
+      orientation = 'auto',
+      margin = DEFAULT_PDF_MARGIN,
+      fit = 'contain',
+      title,
+    } = options;
+
+    const pdf = await PDFDocument.create();
+    pdf.setProducer('web-converter');
+    pdf.setCreationDate(new Date());
+    if (title) {
+      pdf.setTitle(title);
+    }
+
+    for (const buffer of images) {
+      // Natural image size decides page orientation and 'fit' page size
+      const natural = await prepareImage(buffer);
+      const naturalWidth = toPoints(natural.width, natural.density);
+      const naturalHeight = toPoints(natural.height, natural.density);
+
+      const [pageWidth, pageHeight] =
+        pageSize === 'fit'
+          ? [naturalWidth + margin * 2, naturalHeight + margin * 2]
+          : orientPage(PDF_PAGE_SIZES[pageSize], orientation, naturalWidth > naturalHeight);
+
+      const boxWidth = pageWidth - margin * 2;
+      const boxHeight = pageHeight - margin * 2;
+      if (boxWidth <= 0 || boxHeight <= 0) {
+        throw new Error('Page margin leaves no room for the image');
+      }
+
+      // Cover crops the pixels to the box aspect ratio before embedding
+      const prepared =
+        fit === 'cover' ? await prepareImage(buffer, boxWidth / boxHeight) : natural;
+
+      const embedded: PDFImage =
+        prepared.type === 'jpg'
+          ? await pdf.embedJpg(prepared.data)
+          : await pdf.embedPng(prepared.data);
+
+      const placement = placeImage(
+        fit,
+        toPoints(prepared.width, prepared.density),
+        toPoints(prepared.height, prepared.density),
+        boxWidth,
+        boxHeight,
+      );
+
+      const page = pdf.addPage([pageWidth, pageHeight]);
+      page.drawImage(embedded, {
+        x: margin + placement.x,
+        y: margin + placement.y,
+        width: placement.width,
+        height: placement.height,
+      });
+    }
+
+    const data = Buffer.from(await pdf.save());
+    const firstPage = pdf.getPage(0);
+
+    return {
+      success: true,
+      data,
+      metadata: {
+        originalSize: images.reduce((sum, image) => sum + image.length, 0),
+        convertedSize: data.length,
+        format: 'pdf',
+        width: Math.round(firstPage.getWidth()),
+        height: Math.round(firstPage.getHeight()),
+        pages: pdf.getPageCount(),
+      },
+    };
+  } catch (error) {
+    logError(error, { operation: 'imagesToPdf' });
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'PDF creation failed',
+    };
+  }
+}
+
+/**
+ * Load the Unicode font for text PDFs from PDF_FONT_PATH (read once)
+ * Without it, text PDFs are limited to the Latin-1 standard fonts
+ */
+export function loadPdfFont(): Promise<Buffer | undefined> {
+  if (!pdfFont) {
+    const path = process.env.PDF_FONT_PATH;
+
+    pdfFont = path
+      ? fs.readFile(path).catch((error) => {
+          logError(error, { operation: 'loadPdfFont', path });
+          return undefined;
+        })
+      : Promise.resolve(undefined);
+  }
+
+  return pdfFont;
+}
+
+/**
+ * Normalise an image into JPEG or PNG bytes pdf-lib can embed
+ * Applies EXIF orientation and, if given, a centre crop to `cropAspect`
+ */
+async function prepareImage(
+  buffer: Buffer,
+  cropAspect?: number,
+): Promise<PreparedImage> {
+  const metadata = await sharp(buffer, { limitInputPixels: getDecodePixelLimit() }).metadata();
+  const density = metadata.density || POINTS_PER_INCH;
+
+  // Baseline sRGB/greyscale JPEGs without rotation can be embedded as-is
+  const isPassthroughJpeg =
+    metadata.format === 'jpeg' &&
+    (!metadata.orientation || metadata.orientation === 1) &&
+    (metadata.space === 'srgb' || metadata.space === 'b-w') &&
+    cropAspect === undefined;
+
+  if (isPassthroughJpeg) {
+    return {
+      data: buffer,
+      type: 'jpg',
+      width: metadata.width || 0,
+      height: metadata.height || 0,
+      density,
+    };
+  }
+
+  let image = sharp(buffer, { failOnError: false, limitInputPixels: getDecodePixelLimit() })
+    .rotate()
+    .toColourspace('srgb');
+
+  if (cropAspect !== undefined) {
+    // Resolve orientation first so the crop uses displayed dimensions
+    const oriented = await image.clone().raw().toBuffer({ resolveWithObject: true });
+    const { width, height } = oriented.info;
+    const cropWidth = Math.min(width, Math.round(height * cropAspect));
+    const cropHeight = Math.min(height, Math.round(width / cropAspect));
+
+    image = sharp(oriented.data, { raw: oriented.info }).extract({
+      left: Math.floor((width - cropWidth) / 2),
+      top: Math.floor((height - cropHeight) / 2),
+      width: cropWidth,
+      height: cropHeight,
+    });
+  }
+
+  // Keep lossless sources and transparency as PNG; photos as JPEG
+  const usePng =
+    metadata.hasAlpha || ['png', 'gif', 'tiff'].includes(metadata.format || '');
+
+  const { data, info } = usePng
+    ? await image.png().toBuffer({ resolveWithObject: true })
+    : await image
+        .jpeg({ quality: EMBED_JPEG_QUALITY, mozjpeg: true })
+        .toBuffer({ resolveWithObject: true });
+
+  return {
+    data,
+    type: usePng ? 'png' : 'jpg',
+    width: info.width,
+    height: info.height,
+    density,
+  };
+}
+
+/**
+ * Convert pixels to points at the given DPI
+ */
+function toPoints(pixels: number, density: number): number {
+  return (pixels * POINTS_PER_INCH) / density;
+}
+
+/**
+ * Apply orientation to a portrait page size
+ */
+function orientPage(
+  [width, height]: [number, number],
+  orientation: PdfOrientation,
+  imageIsLandscape: boolean,
+): [number, number] {
+  const landscape =
+    orientation === 'landscape' || (orientation === 'auto' && imageIsLandscape);
+  return landscape ? [height, width] : [width, height];
+}
+
+/**
+ * Position and size of an image inside the content box (points, from bottom-left)
+ */
+function placeImage(
+  fit: PdfImageFit,
+  imageWidth: number,
+  imageHeight: number,
+  boxWidth: number,
+  boxHeight: number,
+): { x: number; y: number; width: number; height: number } {
+  if (fit === 'fill' || fit === 'cover') {
+    return { x: 0, y: 0, width: boxWidth, height: boxHeight };
+  }
+
+  const containScale = Math.min(boxWidth / imageWidth, boxHeight / imageHeight);
+
+  // 'none' keeps the natural size unless it would overflow the box
+  const scale = fit === 'none' ? Math.min(1, containScale) : containScale;
+  const width = imageWidth * scale;
+  const height = imageHeight * scale;
+
+  return {
+    x: (boxWidth - width) / 2,
+    y: (boxHeight - height) / 2,
+    width,
+    height,
+  };
+}
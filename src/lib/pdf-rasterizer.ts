@@ -0,0 +1,119 @@
+/**
+ * Server-side PDF page rendering using pdf.js
+ * Sharp's prebuilt libvips has no PDF loader, so pages are drawn with
+ * pdf.js onto @napi-rs/canvas and handed to Sharp as lossless PNG
+ */
+
+import { createRequire } from 'module';
+import { dirname, join } from 'path';
+import sharp from 'sharp';
+import { createCanvas } from '@napi-rs/canvas';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { PdfRenderOptions, RenderedPdfPage } from './types';
+import { DEFAULT_PDF_RENDER_DPI, MAX_DIMENSION } from './formats';
+
+/**
+ * PDF user space units per inch
+ */
+const POINTS_PER_INCH = 72;
+
+/**
+ * Get the number of pages in a PDF
+ */
+export async function getPdfPageCount(buffer: Buffer): Promise<number> {
+  const pdf = await openPdf(buffer);
+
+  try {
+    return pdf.numPages;
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/**
+ * Render PDF pages to PNG, handing each page to `onPage` before the next is drawn
+ * Only one page is held at a time. Pages are rendered on a white background; a
+ * page whose longest side would exceed `maxDimension` at the requested DPI is
+ * rendered at a lower DPI. Rendering stops early if `onPage` returns false
+ */
+export async function renderPdfPages(
+  buffer: Buffer,
+  options: PdfRenderOptions,
+  onPage: (page: RenderedPdfPage) => Promise<boolean | void>,
+): Promise<void> {
+  const { dpi = DEFAULT_PDF_RENDER_DPI, maxDimension = MAX_DIMENSION } = options;
+  const pdf = await openPdf(buffer);
+
+  try {
+    const pageNumbers =
+      options.pages || Array.from({ length: pdf.numPages }, (_, index) => index + 1);
+
+    for (const pageNumber of pageNumbers) {
+      const page = await pdf.getPage(pageNumber);
+      const natural = page.getViewport({ scale: 1 });
+
+      const longestSide = Math.max(natural.width, natural.height);
+      const scale = Math.min(dpi / POINTS_PER_INCH, maxDimension / longestSide);
+      const viewport = page.getViewport({ scale });
+
+      const width = Math.max(1, Math.floor(viewport.width));
+      const height = Math.max(1, Math.floor(viewport.height));
+      const canvas = createCanvas(width, height);
+      const context = canvas.getContext('2d');
+
+      await page.render({
+        canvasContext: context as unknown as CanvasRenderingContext2D,
+        viewport,
+      }).promise;
+
+      const pixels = context.getImageData(0, 0, width, height);
+      const data = await sharp(Buffer.from(pixels.data.buffer), {
+        raw: { width, height, channels: 4 },
+      })
+        .removeAlpha()
+        .png({ compressionLevel: 0 }) // Intermediate only; re-encoded by the converter
+        .toBuffer();
+
+      page.cleanup();
+
+      const proceed = await onPage({
+        page: pageNumber,
+        data,
+        width,
+        height,
+        dpi: Math.round(scale * POINTS_PER_INCH),
+      });
+
+      if (proceed === false) {
+        return;
+      }
+    }
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/**
+ * Open a PDF with pdf.js (loaded on first use; it is large)
+ */
+async function openPdf(buffer: Buffer): Promise<PDFDocumentProxy> {
+  const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+
+  return pdfjs.getDocument({
+    data: new Uint8Array(buffer), // Copy: pdf.js takes ownership of the bytes
+    standardFontDataUrl: getStandardFontDataUrl(),
+    isEvalSupported: false,
+    disableFontFace: true,
+    useSystemFonts: false,
+  }).promise;
+}
+
+/**
+ * Directory with pdf.js metrics for the 14 standard fonts
+ * (needed to draw text in PDFs that do not embed their fonts)
+ */
+function getStandardFontDataUrl(): string {
+  const require = createRequire(import.meta.url);
+  const packageDir = dirname(require.resolve('pdfjs-dist/package.json'));
+  return join(packageDir, 'standard_fonts') + '/';
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { checkSchema, createRecipeSchema, planRecipeOperation, planResize } from './recipe';
+
+describe('checkSchema', () => {
+  const schema = createRecipeSchema(1000);
+
+  it('accepts a valid recipe', () => {
+    const recipe = [
+      { op: 'resize', width: 200, fit: 'cover', position: 'north' },
+      { op: 'rotate', angle: 90 },
+      { op: 'format', format: 'webp', quality: 80 },
+    ];
+
+    expect(checkSchema(recipe, schema)).toEqual([]);
+  });
+
+  it('rejects values of the wrong type', () => {
+    expect(checkSchema({}, schema)).toEqual(['recipe must be an array']);
+    expect(checkSchema([], schema)).toEqual(['recipe must contain at least 1 item(s)']);
+  });
+
+  it('reports errors from the branch chosen by op', () => {
+    expect(checkSchema([{ op: 'resize', width: 2000 }], schema)).toEqual([
+      'recipe[0].width must be <= 1000',
+    ]);
+    expect(checkSchema([{ op: 'crop', left: 0, top: 0, width: 10 }], schema)).toEqual([
+      'recipe[0].height is required',
+    ]);
+  });
+
+  it('lists the allowed ops for an unknown op', () => {
+    const [error] = checkSchema([{ op: 'explode' }], schema);
+
+    expect(error).toMatch(/^recipe\[0\]\.op must be one of: resize, crop, rotate/);
+  });
+
+  it('rejects unknown properties and resize without a size', () => {
+    expect(checkSchema([{ op: 'flatten', colour: '#fff' }], schema)).toEqual([
+      'recipe[0].colour is not allowed',
+    ]);
+    expect(checkSchema([{ op: 'resize', fit: 'fill' }], schema)).toEqual([
+      'recipe[0] does not match any allowed shape',
+    ]);
+  });
+});
+
+describe('planResize', () => {
+  it('scales proportionally from a single dimension', () => {
+    expect(planResize(400, 200, { op: 'resize', width: 100 })).toMatchObject({
+      width: 100,
+      height: 50,
+    });
+  });
+
+  it('fits inside the box by default', () => {
+    expect(planResize(400, 200, { op: 'resize', width: 100, height: 100 })).toMatchObject({
+      width: 100,
+      height: 50,
+    });
+  });
+
+  it('does not enlarge unless allowed', () => {
+    expect(planResize(100, 50, { op: 'resize', width: 400 })).toMatchObject({
+      width: 100,
+      height: 50,
+    });
+    expect(
+      planResize(100, 50, { op: 'resize', width: 400, withoutEnlargement: false }),
+    ).toMatchObject({ width: 400, height: 200 });
+  });
+
+  it('crops around the focal point for cover', () => {
+    const plan = planResize(400, 200, {
+      op: 'resize',
+      width: 100,
+      height: 100,
+      fit: 'cover',
+      position: 'east',
+    });
+
+    expect(plan).toMatchObject({ width: 100, height: 100 });
+    expect(plan.source).toEqual({ x: 200, y: 0, width: 200, height: 200 });
+  });
+
+  it('letterboxes for contain', () => {
+    const plan = planResize(400, 200, {
+      op: 'resize',
+      width: 100,
+      height: 100,
+      fit: 'contain',
+    });
+
+    expect(plan).toMatchObject({ width: 100, height: 100 });
+    expect(plan.dest).toEqual({ x: 0, y: 25, width: 100, height: 50 });
+  });
+
+  it('covers the box for outside', () => {
+    expect(
+      planResize(400, 200, { op: 'resize', width: 100, height: 100, fit: 'outside' }),
+    ).toMatchObject({ width: 200, height: 100 });
+  });
+});
+
+describe('planRecipeOperation', () => {
+  it('plans rotation and padding', () => {
+    expect(planRecipeOperation(400, 200, { op: 'rotate', angle: 90 })).toEqual({
+      width: 200,
+      height: 400,
+    });
+    expect(planRecipeOperation(400, 200, { op: 'extend', left: 10, bottom: 5 })).toEqual({
+      width: 410,
+      height: 205,
+    });
+  });
+});
@@ -0,0 +1,647 @@
+/**
+ * Declarative transformation recipes
+ * Schema, validation helpers and geometry shared by the server (Sharp)
+ * and client (Canvas) recipe executors
+ */
+
+import type {
+  ConversionMethod,
+  CropRegion,
+  FocalPoint,
+  FormatOperation,
+  Gravity,
+  ImageFormat,
+  Recipe,
+  RecipeOperation,
+  ResizeOperation,
+  ResizePosition,
+} from './types';
+import {
+  MAX_DIMENSION,
+  MAX_FILE_SIZE,
+  MAX_ROTATION,
+  SERVER_FORMATS,
+  INPUT_ONLY_FORMATS,
+  CLIENT_FORMATS,
+  CROP_STRATEGIES,
+  GRAVITIES,
+  RESIZE_FITS,
+  normalizeFormat,
+} from './formats';
+import { calculateDimensions } from './utils';
+
+/**
+ * Maximum number of operations in a single recipe
+ */
+export const MAX_RECIPE_OPERATIONS = 20;
+
+/**
+ * Background used by flatten when none is given
+ */
+export const DEFAULT_FLATTEN_BACKGROUND = '#ffffff';
+
+/**
+ * Operations the Canvas executor can perform
+ */
+export const CLIENT_RECIPE_OPERATIONS: RecipeOperation['op'][] = [
+  'resize',
+  'crop',
+  'rotate',
+  'extend',
+  'flatten',
+  'format',
+];
+
+/**
+ * Formats the Canvas API can encode
+ */
+export const CLIENT_OUTPUT_FORMATS: ImageFormat[] = ['jpg', 'jpeg', 'png', 'webp'];
+
+/**
+ * Subset of JSON Schema used by the recipe schema
+ */
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  enum?: readonly (string | number)[];
+  const?: string | number;
+  minimum?: number;
+  maximum?: number;
+  maxLength?: number;
+  pattern?: string;
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  oneOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+}
+
+/**
+ * Hex colour: #rgb, #rgba, #rrggbb or #rrggbbaa
+ */
+export const COLOR_SCHEMA: JsonSchema = {
+  type: 'string',
+  pattern: '^#([0-9a-fA-F]{3,4}|[0-9a-fA-F]{6}|[0-9a-fA-F]{8})$',
+};
+
+/**
+ * Width or height, up to `maxDimension`
+ */
+function dimensionSchema(maxDimension: number): JsonSchema {
+  return { type: 'integer', minimum: 1, maximum: maxDimension };
+}
+
+/**
+ * Offset or padding, up to `maxDimension`
+ */
+function offsetSchema(maxDimension: number): JsonSchema {
+  return { type: 'integer', minimum: 0, maximum: maxDimension };
+}
+
+/**
+ * Properties of a crop region (also the crop conversion option)
+ */
+function cropProperties(maxDimension: number): Record<string, JsonSchema> {
+  return {
+    left: offsetSchema(maxDimension),
+    top: offsetSchema(maxDimension),
+    width: dimensionSchema(maxDimension),
+    height: dimensionSchema(maxDimension),
+  };
+}
+
+/**
+ * Properties of extend padding (also the extend conversion option)
+ */
+function extendProperties(maxDimension: number): Record<string, JsonSchema> {
+  return {
+    top: offsetSchema(maxDimension),
+    right: offsetSchema(maxDimension),
+    bottom: offsetSchema(maxDimension),
+    left: offsetSchema(maxDimension),
+    background: COLOR_SCHEMA,
+  };
+}
+
+/**
+ * Build the crop region schema for a maximum dimension
+ */
+export function createCropRegionSchema(maxDimension: number = MAX_DIMENSION): JsonSchema {
+  return {
+    type: 'object',
+    properties: cropProperties(maxDimension),
+    required: ['left', 'top', 'width', 'height'],
+    additionalProperties: false,
+  };
+}
+
+/**
+ * Build the extend padding schema for a maximum dimension
+ */
+export function createExtendPaddingSchema(maxDimension: number = MAX_DIMENSION): JsonSchema {
+  return {
+    type: 'object',
+    properties: extendProperties(maxDimension),
+    additionalProperties: false,
+  };
+}
+
+export const FRACTION_SCHEMA: JsonSchema = {
+  type: 'number',
+  minimum: 0,
+  maximum: 1,
+};
+
+/**
+ * Base64 or data URL image, up to MAX_FILE_SIZE once decoded
+ */
+export const IMAGE_DATA_SCHEMA: JsonSchema = {
+  type: 'string',
+  maxLength: Math.ceil((MAX_FILE_SIZE * 4) / 3) + 64,
+};
+
+/**
+ * Gravity, crop strategy or focal point
+ */
+export const POSITION_SCHEMA: JsonSchema = {
+  anyOf: [
+    { enum: [...GRAVITIES, ...CROP_STRATEGIES] },
+    {
+      type: 'object',
+      properties: { x: FRACTION_SCHEMA, y: FRACTION_SCHEMA },
+      required: ['x', 'y'],
+      additionalProperties: false,
+    },
+  ],
+};
+
+/**
+ * Build schema for a single operation
+ */
+function operationSchema(
+  op: RecipeOperation['op'],
+  properties: Record<string, JsonSchema>,
+  required: string[] = [],
+  extra: Partial<JsonSchema> = {},
+): JsonSchema {
+  return {
+    type: 'object',
+    properties: { op: { const: op }, ...properties },
+    required: ['op', ...required],
+    additionalProperties: false,
+    ...extra,
+  };
+}
+
+/**
+ * Build the recipe schema for a maximum dimension (sizes, offsets and padding)
+ */
+export function createRecipeSchema(maxDimension: number = MAX_DIMENSION): JsonSchema {
+  return {
+    type: 'array',
+    description: 'Ordered list of image operations',
+    minItems: 1,
+    maxItems: MAX_RECIPE_OPERATIONS,
+    items: {
+      oneOf: [
+        operationSchema(
+          'resize',
+          {
+            width: dimensionSchema(maxDimension),
+            height: dimensionSchema(maxDimension),
+            fit: { enum: RESIZE_FITS },
+            position: POSITION_SCHEMA,
+            withoutEnlargement: { type: 'boolean' },
+            background: COLOR_SCHEMA,
+          },
+          [],
+          { anyOf: [{ required: ['width'] }, { required: ['height'] }] },
+        ),
+        operationSchema('crop', cropProperties(maxDimension), ['left', 'top', 'width', 'height']),
+        operationSchema(
+          'rotate',
+          {
+            angle: { type: 'number', minimum: -MAX_ROTATION, maximum: MAX_ROTATION },
+            background: COLOR_SCHEMA,
+          },
+          ['angle'],
+        ),
+        operationSchema('extend', extendProperties(maxDimension)),
+        operationSchema('flatten', {
+          background: COLOR_SCHEMA,
+        }),
+        operationSchema(
+          'composite',
+          {
+            image: IMAGE_DATA_SCHEMA,
+            left: offsetSchema(maxDimension),
+            top: offsetSchema(maxDimension),
+            gravity: { enum: GRAVITIES },
+            blend: { enum: ['over', 'multiply', 'screen', 'overlay', 'darken', 'lighten'] },
+          },
+          ['image'],
+        ),
+        operationSchema(
+          'format',
+          {
+            format: {
+              enum: SERVER_FORMATS.filter((format) => !INPUT_ONLY_FORMATS.includes(format)),
+            },
+            quality: { type: 'integer', minimum: 1, maximum: 100 },
+          },
+          ['format'],
+        ),
+      ],
+    },
+  };
+}
+
+/**
+ * JSON Schema for recipes
+ */
+export const RECIPE_SCHEMA = createRecipeSchema();
+
+/**
+ * Check a value against a JSON Schema subset
+ * Returns a list of error messages (empty when valid)
+ */
+export function checkSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path: string = 'recipe',
+): string[] {
+  if (schema.const !== undefined && value !== schema.const) {
+    return [`${path} must be ${JSON.stringify(schema.const)}`];
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    return [`${path} must be one of: ${schema.enum.join(', ')}`];
+  }
+
+  if (schema.type && !matchesType(value, schema.type)) {
+    const article = ['integer', 'array', 'object'].includes(schema.type) ? 'an' : 'a';
+    return [`${path} must be ${article} ${schema.type}`];
+  }
+
+  const errors: string[] = [];
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path} must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path} must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path} is too long`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${path} has an invalid format`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path} must contain at least ${schema.minItems} item(s)`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path} must contain at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        errors.push(...checkSchema(item, schema.items!, `${path}[${index}]`));
+      });
+    }
+  }
+
+  if (isPlainObject(value)) {
+    for (const key of schema.required || []) {
+      if (value[key] === undefined) {
+        errors.push(`${path}.${key} is required`);
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(value)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        errors.push(...checkSchema(propertyValue, propertySchema, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key} is not allowed`);
+      }
+    }
+  }
+
+  if (schema.anyOf && !schema.anyOf.some((branch) => checkSchema(value, branch, path).length === 0)) {
+    errors.push(`${path} does not match any allowed shape`);
+  }
+
+  if (schema.oneOf) {
+    const branchErrors = schema.oneOf.map((branch) => checkSchema(value, branch, path));
+
+    if (!branchErrors.some((branch) => branch.length === 0)) {
+      // Report errors from the branch selected by the `op` discriminator if possible
+      const op = isPlainObject(value) ? value.op : undefined;
+      const index = schema.oneOf.findIndex((branch) => branch.properties?.op?.const === op);
+
+      if (index >= 0) {
+        errors.push(...branchErrors[index]);
+      } else {
+        const ops = schema.oneOf
+          .map((branch) => branch.properties?.op?.const)
+          .filter((name) => name !== undefined);
+        errors.push(`${path}.op must be one of: ${ops.join(', ')}`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Check a value against a JSON Schema type keyword
+ */
+function matchesType(value: unknown, type: NonNullable<JsonSchema['type']>): boolean {
+  switch (type) {
+    case 'object':
+      return isPlainObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Check if value is a plain (non-array) object
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Get the output format requested by a recipe (last format operation wins)
+ */
+export function getRecipeFormat(recipe: unknown): FormatOperation | null {
+  if (!Array.isArray(recipe)) {
+    return null;
+  }
+
+  for (let i = recipe.length - 1; i >= 0; i--) {
+    const operation = recipe[i];
+    if (isPlainObject(operation) && operation.op === 'format' && typeof operation.format === 'string') {
+      return {
+        op: 'format',
+        format: normalizeFormat(operation.format),
+        quality: typeof operation.quality === 'number' ? operation.quality : undefined,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Get recipe operations the Canvas executor cannot perform
+ */
+export function getUnsupportedClientOperations(recipe: Recipe): RecipeOperation[] {
+  return recipe.filter(
+    (operation) =>
+      !CLIENT_RECIPE_OPERATIONS.includes(operation.op) ||
+      (operation.op === 'format' && !CLIENT_OUTPUT_FORMATS.includes(operation.format)) ||
+      (operation.op === 'resize' && getFocalPoint(operation.position) === null),
+  );
+}
+
+/**
+ * Decide where a recipe should run
+ * Falls back to the server when the input or any operation is client-incompatible
+ */
+export function getRecipeConversionMethod(
+  inputFormat: ImageFormat,
+  recipe: Recipe,
+): ConversionMethod {
+  if (!CLIENT_FORMATS.includes(inputFormat)) {
+    return 'server';
+  }
+
+  return getUnsupportedClientOperations(recipe).length === 0 ? 'client' : 'server';
+}
+
+/**
+ * Rectangle in pixels
+ */
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Resolved resize: output size plus the source region drawn into
+ * the destination region (used for cover crops and contain padding)
+ */
+export interface ResizePlan {
+  width: number;
+  height: number;
+  source: Rect;
+  dest: Rect;
+}
+
+/**
+ * Focal point equivalent of each gravity
+ */
+const GRAVITY_FOCAL_POINTS: Record<Gravity, FocalPoint> = {
+  center: { x: 0.5, y: 0.5 },
+  north: { x: 0.5, y: 0 },
+  northeast: { x: 1, y: 0 },
+  east: { x: 1, y: 0.5 },
+  southeast: { x: 1, y: 1 },
+  south: { x: 0.5, y: 1 },
+  southwest: { x: 0, y: 1 },
+  west: { x: 0, y: 0.5 },
+  northwest: { x: 0, y: 0 },
+};
+
+/**
+ * Get the focal point for a resize position (default: center)
+ * Returns null for content-aware strategies, which need the image pixels
+ */
+export function getFocalPoint(position: ResizePosition | undefined): FocalPoint | null {
+  if (position === undefined) {
+    return GRAVITY_FOCAL_POINTS.center;
+  }
+
+  if (typeof position === 'object') {
+    return position;
+  }
+
+  return GRAVITY_FOCAL_POINTS[position as Gravity] || null;
+}
+
+/**
+ * Resolve a resize operation against the current image size
+ * Mirrors Sharp's fit semantics so both executors agree on output size
+ */
+export function planResize(
+  sourceWidth: number,
+  sourceHeight: number,
+  operation: ResizeOperation,
+): ResizePlan {
+  const fit = operation.fit || 'inside';
+  // Content-aware strategies are resolved by Sharp; plan them as centred
+  const focal = getFocalPoint(operation.position) || GRAVITY_FOCAL_POINTS.center;
+  const withoutEnlargement = operation.withoutEnlargement !== false;
+  const fullSource: Rect = { x: 0, y: 0, width: sourceWidth, height: sourceHeight };
+
+  // A single dimension always scales proportionally
+  const { width: scaledWidth, height: scaledHeight } = calculateDimensions(
+    sourceWidth,
+    sourceHeight,
+    operation.width,
+    operation.height,
+  );
+  const boxWidth = operation.width || scaledWidth;
+  const boxHeight = operation.height || scaledHeight;
+
+  const limit = (width: number, height: number) => {
+    if (withoutEnlargement && (width > sourceWidth || height > sourceHeight)) {
+      return { width: sourceWidth, height: sourceHeight };
+    }
+    return { width, height };
+  };
+
+  switch (fit) {
+    case 'fill': {
+      const size = limit(boxWidth, boxHeight);
+      return { ...size, source: fullSource, dest: { x: 0, y: 0, ...size } };
+    }
+
+    case 'cover': {
+      const size = limit(boxWidth, boxHeight);
+      const scale = Math.max(size.width / sourceWidth, size.height / sourceHeight);
+      const cropWidth = Math.min(sourceWidth, Math.round(size.width / scale));
+      const cropHeight = Math.min(sourceHeight, Math.round(size.height / scale));
+
+      // Centre the crop on the focal point, then keep it inside the image
+      const clamp = (value: number, max: number) => Math.min(Math.max(value, 0), max);
+
+      return {
+        ...size,
+        source: {
+          x: Math.round(clamp(focal.x * sourceWidth - cropWidth / 2, sourceWidth - cropWidth)),
+          y: Math.round(clamp(focal.y * sourceHeight - cropHeight / 2, sourceHeight - cropHeight)),
+          width: cropWidth,
+          height: cropHeight,
+        },
+        dest: { x: 0, y: 0, ...size },
+      };
+    }
+
+    case 'contain': {
+      const size = limit(boxWidth, boxHeight);
+      const inner = calculateDimensions(sourceWidth, sourceHeight, size.width, size.height);
+
+      return {
+        ...size,
+        source: fullSource,
+        dest: {
+          x: Math.round((size.width - inner.width) * focal.x),
+          y: Math.round((size.height - inner.height) * focal.y),
+          ...inner,
+        },
+      };
+    }
+
+    case 'outside': {
+      const scale = Math.max(boxWidth / sourceWidth, boxHeight / sourceHeight);
+      const size = limit(Math.round(sourceWidth * scale), Math.round(sourceHeight * scale));
+      return { ...size, source: fullSource, dest: { x: 0, y: 0, ...size } };
+    }
+
+    case 'inside':
+    default: {
+      const size = limit(scaledWidth, scaledHeight);
+      return { ...size, source: fullSource, dest: { x: 0, y: 0, ...size } };
+    }
+  }
+}
+
+/**
+ * Size of the bounding box of an image rotated by `angle` degrees
+ */
+export function planRotation(
+  width: number,
+  height: number,
+  angle: number,
+): { width: number; height: number } {
+  const radians = (angle * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(radians));
+  const sin = Math.abs(Math.sin(radians));
+
+  return {
+    width: Math.round(width * cos + height * sin),
+    height: Math.round(width * sin + height * cos),
+  };
+}
+
+/**
+ * Get the image size after a recipe operation, without running it
+ */
+export function planRecipeOperation(
+  width: number,
+  height: number,
+  operation: RecipeOperation,
+): { width: number; height: number } {
+  switch (operation.op) {
+    case 'resize': {
+      const plan = planResize(width, height, operation);
+      return { width: plan.width, height: plan.height };
+    }
+    case 'crop':
+      return { width: operation.width, height: operation.height };
+    case 'rotate':
+      return planRotation(width, height, operation.angle);
+    case 'extend':
+      return {
+        width: width + (operation.left || 0) + (operation.right || 0),
+        height: height + (operation.top || 0) + (operation.bottom || 0),
+      };
+    default:
+      return { width, height };
+  }
+}
+
+/**
+ * Check a crop rectangle fits inside the current image
+ */
+export function isCropWithinBounds(
+  operation: CropRegion,
+  width: number,
+  height: number,
+): boolean {
+  return (
+    operation.left + operation.width <= width &&
+    operation.top + operation.height <= height
+  );
+}
+
+/**
+ * Strip the data URL prefix from a base64 image string
+ */
+export function getBase64Payload(image: string): string {
+  const commaIndex = image.indexOf(',');
+  return image.startsWith('data:') && commaIndex >= 0
+    ? image.slice(commaIndex + 1)
+    : image;
+}
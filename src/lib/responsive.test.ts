@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import type { ImageFormat, ResponsiveManifest } from './types';
+import { createPictureHtml, getResponsiveWidths } from './responsive';
+
+/**
+ * Manifest with 400w and 800w variants of each format
+ */
+function createManifest(formats: ImageFormat[]): ResponsiveManifest {
+  return {
+    source: { filename: 'photo.png', width: 800, height: 600, format: 'png' },
+    sizes: '100vw',
+    variants: formats.flatMap((format) =>
+      [400, 800].map((width) => ({
+        width,
+        height: (width * 3) / 4,
+        bytes: 1000,
+        format,
+        path: `photo-${width}w.${format}`,
+      })),
+    ),
+  };
+}
+
+describe('createPictureHtml', () => {
+  it('falls back to JPEG whatever the requested order', () => {
+    const html = createPictureHtml(createManifest(['jpg', 'avif', 'webp']), 'A photo');
+
+    expect(html).toContain('<img src="photo-800w.jpg"');
+    expect(html.indexOf('image/avif')).toBeLessThan(html.indexOf('image/webp'));
+    expect(html).not.toContain('type="image/jpeg"');
+  });
+
+  it('prefers JPEG over PNG and uses the last format when neither is generated', () => {
+    expect(createPictureHtml(createManifest(['png', 'jpg']), '')).toContain(
+      '<img src="photo-800w.jpg"',
+    );
+    expect(createPictureHtml(createManifest(['avif', 'webp']), '')).toContain(
+      '<img src="photo-800w.webp"',
+    );
+  });
+});
+
+describe('getResponsiveWidths', () => {
+  it('caps widths at the source width without duplicates', () => {
+    expect(getResponsiveWidths([1600, 400, 800, 1200], 1000)).toEqual([400, 800, 1000]);
+  });
+});
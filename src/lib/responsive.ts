@@ -0,0 +1,174 @@
+/**
+ * Responsive image set generation
+ * Produces every width/format variant of one image plus the <picture> markup
+ * and manifest that reference them
+ */
+
+import type {
+  ConverterLimits,
+  ImageFormat,
+  ResponsiveManifest,
+  ResponsiveOptions,
+  ResponsiveVariant,
+} from './types';
+import type { ArchiveEntry } from './archive';
+import { convertImageServer, extractMetadata } from './server-converter';
+import { getLimits } from './config';
+import { BATCH_CONCURRENCY, getExtensionForFormat, getMimeType, normalizeFormat } from './formats';
+import { mapWithConcurrency, sanitizeFilename } from './utils';
+
+/**
+ * Default <img sizes> attribute
+ */
+const DEFAULT_SIZES = '100vw';
+
+/**
+ * Formats every browser can show, in order of preference for the <img> fallback
+ */
+const FALLBACK_FORMATS: ImageFormat[] = ['jpg', 'png', 'gif'];
+
+/**
+ * Generated variants and the files describing them
+ */
+export interface ResponsiveSet {
+  manifest: ResponsiveManifest;
+  html: string;
+  entries: ArchiveEntry[]; // Variants, picture.html and manifest.json
+}
+
+/**
+ * Get the widths to generate for a source image
+ * Widths larger than the source are replaced by the source width (no upscaling)
+ */
+export function getResponsiveWidths(widths: number[], sourceWidth: number): number[] {
+  const capped = widths.map((width) => Math.min(width, sourceWidth));
+  return [...new Set(capped)].sort((a, b) => a - b);
+}
+
+/**
+ * Convert an image to every requested width and format
+ * Throws if any variant fails, since a partial srcset would be misleading
+ */
+export async function generateResponsiveSet(
+  buffer: Buffer,
+  filename: string,
+  options: ResponsiveOptions,
+  limits: ConverterLimits = getLimits(),
+): Promise<ResponsiveSet> {
+  const source = await extractMetadata(buffer);
+  const widths = getResponsiveWidths(options.widths, source.width);
+  const formats = [...new Set(options.formats.map(normalizeFormat))];
+  const baseName = sanitizeFilename(filename).replace(/\.[^/.]+$/, '');
+
+  const jobs = formats.flatMap((format) => widths.map((width) => ({ format, width })));
+
+  const variants = await mapWithConcurrency(
+    jobs,
+    BATCH_CONCURRENCY,
+    async ({ format, width }): Promise<ResponsiveVariant & { data: Buffer }> => {
+      // Same resize semantics as resizeImageServer, done in the encoding pipeline
+      const result = await convertImageServer(
+        buffer,
+        {
+          outputFormat: format,
+          width,
+          fit: 'inside',
+          quality: options.quality,
+        },
+        limits,
+      );
+
+      if (!result.success || !result.data) {
+        throw new Error(result.error || `Failed to create ${width}w ${format} variant`);
+      }
+
+      const data =
+        result.data instanceof Buffer ? result.data : Buffer.from(result.data as ArrayBuffer);
+
+      return {
+        width: result.metadata?.width ?? width,
+        height: result.metadata?.height ?? Math.round((source.height * width) / source.width),
+        bytes: data.length,
+        format,
+        path: `${baseName}-${width}w.${getExtensionForFormat(format)}`,
+        data,
+      };
+    },
+  );
+
+  const manifest: ResponsiveManifest = {
+    source: {
+      filename,
+      width: source.width,
+      height: source.height,
+      format: source.format,
+    },
+    sizes: options.sizes || DEFAULT_SIZES,
+    variants: variants.map(({ data, ...variant }) => variant),
+  };
+
+  const html = createPictureHtml(manifest, options.alt ?? '');
+
+  return {
+    manifest,
+    html,
+    entries: [
+      ...variants.map(({ path, data }) => ({ name: path, data })),
+      { name: 'picture.html', data: html },
+      { name: 'manifest.json', data: JSON.stringify(manifest, null, 2) },
+    ],
+  };
+}
+
+/**
+ * Build a <picture> element for a responsive image set
+ * The <img> fallback is JPEG, PNG or GIF when generated (otherwise the last
+ * format); the other formats become <source> elements in their requested order
+ */
+export function createPictureHtml(manifest: ResponsiveManifest, alt: string): string {
+  const formats = [...new Set(manifest.variants.map((variant) => variant.format))];
+  const fallback =
+    FALLBACK_FORMATS.find((format) => formats.includes(format)) || formats[formats.length - 1];
+  const sizes = escapeAttribute(manifest.sizes);
+
+  const srcset = (format: ImageFormat) =>
+    manifest.variants
+      .filter((variant) => variant.format === format)
+      .map((variant) => `${escapeAttribute(variant.path)} ${variant.width}w`)
+      .join(', ');
+
+  const sources = formats
+    .filter((format) => format !== fallback)
+    .map(
+      (format) =>
+        `  <source type="${getMimeType(format)}" srcset="${srcset(format)}" sizes="${sizes}">`,
+    );
+
+  // The largest fallback variant is the default src and sets the aspect ratio
+  const largest = manifest.variants
+    .filter((variant) => variant.format === fallback)
+    .reduce((best, variant) => (variant.width > best.width ? variant : best));
+
+  const img = [
+    `  <img src="${escapeAttribute(largest.path)}"`,
+    `srcset="${srcset(fallback)}"`,
+    `sizes="${sizes}"`,
+    `width="${largest.width}"`,
+    `height="${largest.height}"`,
+    `alt="${escapeAttribute(alt)}"`,
+    'loading="lazy" decoding="async">',
+  ].join(' ');
+
+  return ['<picture>', ...sources, img, '</picture>', ''].join('\n');
+}
+
+/**
+ * Escape text for an HTML attribute value
+ */
+function escapeAttribute(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -5,91 +5,1134 @@
 
 import sharp from 'sharp';
 import type {
+  BestFormatResult,
   ConversionOptions,
   ConversionResult,
+  ConverterLimits,
+  FormatCandidate,
   ImageFormat,
   ImageMetadata,
+  ImageTransforms,
+  InspectedImageMetadata,
+  MetadataOption,
+  QualityOption,
+  ExtendPadding,
+  Recipe,
+  RecipeOperation,
+  ResizeOperation,
+  ResizePosition,
+  WatermarkOptions,
 } from './types';
 import { ErrorCode } from './types';
-import { DEFAULT_QUALITY, supportsQuality, normalizeFormat } from './formats';
-import { clampQuality, logError } from './utils';
+import {
+  DEFAULT_MIN_SSIM,
+  MIN_AUTO_QUALITY,
+  MAX_AUTO_QUALITY,
+  BATCH_CONCURRENCY,
+  DEFAULT_SVG_DENSITY,
+  MAX_SVG_DENSITY,
+  supportsAnimation,
+  supportsQuality,
+  supportsTransparency,
+  normalizeFormat,
+} from './formats';
+import { clampQuality, formatFileSize, logError, mapWithConcurrency } from './utils';
+import { encodeBmp, readBmpHeader } from './bmp-encoder';
+import { getConfig, getDecodePixelLimit, getLimits } from './config';
+import { getMetadataExifTags, resolveMetadataOption } from './metadata';
+import { getIccProfileName, parseExif } from './image-metadata';
+import { getAnimationDuration, shouldAnimate } from './animation';
+import { searchTargetSize } from './target-size';
+import {
+  WATERMARK_FONT_SIZE,
+  getWatermarkSize,
+  planWatermark,
+  resolveWatermark,
+} from './watermark';
+import type { ResolvedWatermark } from './watermark';
+import { validateRecipeSize, validateTransparency } from './validator';
+import {
+  DEFAULT_FLATTEN_BACKGROUND,
+  getBase64Payload,
+  getRecipeFormat,
+  isCropWithinBounds,
+  planRecipeOperation,
+  planResize,
+  planRotation,
+} from './recipe';
+
+/**
+ * Bits per sample for each libvips band format
+ */
+const BIT_DEPTHS: Record<string, number> = {
+  uchar: 8,
+  char: 8,
+  ushort: 16,
+  short: 16,
+  uint: 32,
+  int: 32,
+  float: 32,
+  complex: 64,
+  double: 64,
+  dpcomplex: 128,
+};
+
+/**
+ * Side of the square windows SSIM is measured over
+ */
+const SSIM_WINDOW = 8;
+
+/**
+ * Decoded pixels passed between recipe steps
+ */
+interface RawImage {
+  data: Buffer;
+  info: sharp.OutputInfo;
+}
 
 /**
  * Convert image using Sharp (server-side)
+ * Animated GIF/WebP input keeps every frame when the output can animate
  */
 export async function convertImageServer(
   buffer: Buffer,
   options: ConversionOptions,
+  limits: ConverterLimits = getLimits(),
 ): Promise<ConversionResult> {
+  if (options.quality === 'auto') {
+    return convertWithAutoQuality(buffer, options, limits);
+  }
+
+  if (options.targetSize) {
+    return convertToTargetSize(buffer, options, options.targetSize, limits);
+  }
+
+  if (options.recipe) {
+    return executeRecipeServer(buffer, options.recipe, options, limits);
+  }
+
   try {
     // Normalize format
     const outputFormat = normalizeFormat(options.outputFormat);
 
     // Get original metadata
     const originalMetadata = await extractMetadata(buffer);
+    const frames = originalMetadata.frames || 1;
+    const animated = shouldAnimate(frames, outputFormat, options.animated);
 
-    // Create Sharp instance
-    let image = sharp(buffer, {
-      failOnError: false,
-      sequentialRead: true,
-      limitInputPixels: 268402689, // 16384 x 16384
+    if (animated) {
+      checkAnimationOptions(options, frames);
+    }
+
+    // Without `animated`, Sharp decodes only the first frame
+    const result = await convertFrames(
+      buffer,
+      options,
+      outputFormat,
+      { animated },
+      limits.defaultQuality,
+    );
+
+    const transparency = validateTransparency(
+      outputFormat,
+      Boolean(originalMetadata.hasAlpha),
+      options.background,
+    );
+
+    return transparency.details?.warning
+      ? { ...result, warnings: [transparency.details.warning] }
+      : result;
+  } catch (error) {
+    logError(error, { operation: 'convertImageServer' });
+
+    return {
+      success: false,
+      error: await getConversionErrorMessage(buffer, error),
+    };
+  }
+}
+
+/**
+ * Get the message for a failed conversion
+ * Prebuilt Sharp binaries decode AV1 (AVIF) but not HEVC, which most HEIC photos use
+ */
+async function getConversionErrorMessage(buffer: Buffer, error: unknown): Promise<string> {
+  const message = error instanceof Error ? error.message : 'Conversion failed';
+  const compression = await sharp(buffer, { limitInputPixels: getDecodePixelLimit() })
+    .metadata()
+    .then((metadata) => metadata.compression)
+    .catch(() => undefined);
+
+  return compression === 'hevc' && /heif/i.test(message)
+    ? `HEVC-compressed HEIC images cannot be decoded by this server's image library (${message})`
+    : message;
+}
+
+/**
+ * Convert to each candidate format in parallel and keep the smallest output
+ * Candidates that would drop transparency or animation are skipped
+ */
+export async function convertToBestFormat(
+  buffer: Buffer,
+  options: ConversionOptions,
+  candidates: ImageFormat[],
+  limits: ConverterLimits = getLimits(),
+): Promise<BestFormatResult> {
+  try {
+    const { hasAlpha, frames = 1 } = await extractMetadata(buffer);
+    const animated = frames > 1 && options.animated !== false;
+
+    const formats = candidates.filter(
+      (format) =>
+        (!hasAlpha || supportsTransparency(format)) &&
+        (animated ? supportsAnimation(format) : format !== 'gif'),
+    );
+
+    if (formats.length === 0) {
+      return {
+        success: false,
+        error: `None of the candidate formats (${candidates.join(', ')}) can keep this image's ${animated ? 'animation' : 'transparency'}`,
+        candidates: [],
+      };
+    }
+
+    const results = await Promise.all(
+      formats.map((format) =>
+        convertImageServer(buffer, { ...options, outputFormat: format }, limits),
+      ),
+    );
+
+    const tried: FormatCandidate[] = results.map((result, index) => ({
+      format: formats[index],
+      size: result.success ? result.metadata?.convertedSize : undefined,
+      error: result.success ? undefined : result.error,
+    }));
+
+    // Ties go to the earlier (preferred) format
+    let best: ConversionResult | undefined;
+    for (const result of results) {
+      const size = result.metadata?.convertedSize;
+      if (
+        result.success &&
+        size !== undefined &&
+        (!best || size < best.metadata!.convertedSize!)
+      ) {
+        best = result;
+      }
+    }
+
+    if (!best) {
+      return {
+        success: false,
+        error: 'Conversion failed for every candidate format',
+        candidates: tried,
+      };
+    }
+
+    return { ...best, candidates: tried };
+  } catch (error) {
+    logError(error, { operation: 'convertToBestFormat' });
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Conversion failed',
+      candidates: [],
+    };
+  }
+}
+
+/**
+ * Convert with the lowest quality whose output keeps an SSIM of at least `minSsim`
+ * against the untouched pipeline output; lossless formats are converted as usual
+ */
+async function convertWithAutoQuality(
+  buffer: Buffer,
+  options: ConversionOptions,
+  limits: ConverterLimits,
+): Promise<ConversionResult> {
+  const outputFormat = normalizeFormat(options.outputFormat);
+
+  if (!supportsQuality(outputFormat)) {
+    return convertImageServer(buffer, { ...options, quality: undefined }, limits);
+  }
+
+  const minSsim = options.minSsim ?? DEFAULT_MIN_SSIM;
+
+  try {
+    const { frames = 1 } = await extractMetadata(buffer);
+    const animated = shouldAnimate(frames, outputFormat, options.animated);
+    const reference = await toLuma(await createPipeline(buffer, options, { animated }));
+
+    const measure = async (quality: number) => {
+      const result = await convertImageServer(buffer, { ...options, quality }, limits);
+
+      if (!result.success || !result.data || !result.metadata) {
+        throw new Error(result.error || 'Conversion failed');
+      }
+
+      const converted = await toLuma(sharp(result.data as Buffer, { animated }));
+      return { result, quality, ssim: calculateSsim(reference, converted) };
+    };
+
+    // SSIM rises with quality, so binary search for the lowest passing quality;
+    // if even MAX_AUTO_QUALITY misses the threshold it is used as is
+    let best = await measure(MAX_AUTO_QUALITY);
+
+    if (best.ssim >= minSsim) {
+      let failing = MIN_AUTO_QUALITY - 1;
+      let passing = MAX_AUTO_QUALITY;
+
+      while (passing - failing > 1) {
+        const attempt = await measure(Math.floor((passing + failing) / 2));
+
+        if (attempt.ssim >= minSsim) {
+          passing = attempt.quality;
+          best = attempt;
+        } else {
+          failing = attempt.quality;
+        }
+      }
+    }
+
+    return {
+      ...best.result,
+      metadata: {
+        ...best.result.metadata!,
+        quality: best.quality,
+        ssim: Math.round(best.ssim * 10000) / 10000,
+      },
+    };
+  } catch (error) {
+    logError(error, { operation: 'convertWithAutoQuality' });
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Conversion failed',
+    };
+  }
+}
+
+/**
+ * Decode a pipeline to 8-bit luma (alpha is flattened onto white)
+ */
+async function toLuma(image: sharp.Sharp): Promise<RawImage> {
+  return toRawImage(image.flatten({ background: '#ffffff' }).greyscale().toColourspace('b-w'));
+}
+
+/**
+ * Mean structural similarity (SSIM) of two same-sized 8-bit luma images
+ * Averages SSIM over 8x8 windows placed every 4 pixels
+ */
+function calculateSsim(a: RawImage, b: RawImage): number {
+  const { width, height } = a.info;
+
+  if (width !== b.info.width || height !== b.info.height) {
+    throw new Error('Cannot compare images of different sizes');
+  }
+
+  const window = Math.min(SSIM_WINDOW, width, height);
+  const step = Math.max(1, window / 2);
+  const pixels = window * window;
+
+  // Stabilising constants for 8-bit data (K1 = 0.01, K2 = 0.03)
+  const c1 = (0.01 * 255) ** 2;
+  const c2 = (0.03 * 255) ** 2;
+
+  let total = 0;
+  let windows = 0;
+
+  for (let top = 0; top + window <= height; top += step) {
+    for (let left = 0; left + window <= width; left += step) {
+      let sumA = 0;
+      let sumB = 0;
+      let sumAA = 0;
+      let sumBB = 0;
+      let sumAB = 0;
+
+      for (let y = top; y < top + window; y++) {
+        let index = y * width + left;
+
+        for (let x = 0; x < window; x++, index++) {
+          const valueA = a.data[index];
+          const valueB = b.data[index];
+          sumA += valueA;
+          sumB += valueB;
+          sumAA += valueA * valueA;
+          sumBB += valueB * valueB;
+          sumAB += valueA * valueB;
+        }
+      }
+
+      const meanA = sumA / pixels;
+      const meanB = sumB / pixels;
+      const varianceA = sumAA / pixels - meanA * meanA;
+      const varianceB = sumBB / pixels - meanB * meanB;
+      const covariance = sumAB / pixels - meanA * meanB;
+
+      total +=
+        ((2 * meanA * meanB + c1) * (2 * covariance + c2)) /
+        ((meanA * meanA + meanB * meanB + c1) * (varianceA + varianceB + c2));
+      windows++;
+    }
+  }
+
+  return windows > 0 ? total / windows : 1;
+}
+
+/**
+ * Convert with the highest quality whose output fits in `targetSize` bytes
+ * Dimensions are scaled down as well when `resizeToTarget` is set
+ */
+async function convertToTargetSize(
+  buffer: Buffer,
+  options: ConversionOptions,
+  targetSize: number,
+  limits: ConverterLimits,
+): Promise<ConversionResult> {
+  const outputFormat = normalizeFormat(options.outputFormat);
+
+  // Full-size output dimensions, taken from the first attempt
+  let fullSize: ImageMetadata | undefined;
+
+  try {
+    const search = await searchTargetSize(
+      async (quality, scale) => {
+        const resized =
+          scale < 1 && fullSize
+            ? {
+                width: Math.max(1, Math.round(fullSize.width * scale)),
+                height: Math.max(1, Math.round(fullSize.height * scale)),
+                fit: 'inside' as const,
+              }
+            : {};
+
+        const result = await convertImageServer(
+          buffer,
+          { ...options, ...resized, quality, targetSize: undefined },
+          limits,
+        );
+
+        if (!result.success || !result.data || !result.metadata) {
+          throw new Error(result.error || 'Conversion failed');
+        }
+
+        fullSize ??= result.metadata;
+        return { data: result, size: result.metadata.convertedSize || 0 };
+      },
+      {
+        targetSize,
+        maxQuality:
+          typeof options.quality === 'number' ? options.quality : limits.defaultQuality,
+        lossy: supportsQuality(outputFormat),
+        resize: options.resizeToTarget,
+      },
+    );
+
+    if (!search.reached) {
+      return {
+        success: false,
+        error: `Could not compress below ${formatFileSize(targetSize)}; the smallest output was ${formatFileSize(search.size)}`,
+      };
+    }
+
+    return {
+      ...search.data,
+      metadata: { ...search.data.metadata!, quality: search.quality },
+    };
+  } catch (error) {
+    logError(error, { operation: 'convertToTargetSize' });
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Conversion failed',
+    };
+  }
+}
+
+/**
+ * Convert each frame of an animated image to a separate still image
+ * Frames are decoded as displayed, so each one is a complete picture
+ */
+export async function extractFramesServer(
+  buffer: Buffer,
+  options: ConversionOptions,
+  limits: ConverterLimits = getLimits(),
+): Promise<ConversionResult[]> {
+  const outputFormat = normalizeFormat(options.outputFormat);
+  const results: ConversionResult[] = [];
+
+  try {
+    const { frames = 1 } = await extractMetadata(buffer);
+
+    for (let page = 0; page < frames; page++) {
+      results.push(
+        await convertFrames(buffer, options, outputFormat, { page }, limits.defaultQuality),
+      );
+    }
+  } catch (error) {
+    logError(error, { operation: 'extractFramesServer' });
+
+    results.push({
+      success: false,
+      error: error instanceof Error ? error.message : 'Frame extraction failed',
     });
+  }
 
-    // Resize if dimensions are specified
-    if (options.width || options.height) {
-      image = image.resize({
+  return results;
+}
+
+/**
+ * Run the conversion pipeline on all frames (`animated`) or a single page
+ * `defaultQuality` applies when the options have no numeric quality
+ */
+async function convertFrames(
+  buffer: Buffer,
+  options: ConversionOptions,
+  outputFormat: ImageFormat,
+  input: Pick<sharp.SharpOptions, 'animated' | 'page'>,
+  defaultQuality: number,
+): Promise<ConversionResult> {
+  let image = await createPipeline(buffer, options, input);
+
+  // Keep or write metadata (Sharp strips it by default)
+  image = applyMetadata(image, options.metadata);
+
+  // Convert to target format with options
+  image = applyFormatConversion(
+    image,
+    outputFormat,
+    options.quality,
+    defaultQuality,
+    input.animated ? options : {},
+  );
+
+  // Execute conversion
+  const convertedBuffer = await renderOutput(image, outputFormat);
+
+  // Get converted metadata
+  const convertedMetadata = await extractOutputMetadata(
+    convertedBuffer,
+    outputFormat,
+  );
+
+  // Create result metadata
+  const metadata: ImageMetadata = {
+    originalSize: buffer.length,
+    convertedSize: convertedBuffer.length,
+    format: outputFormat,
+    width: convertedMetadata.width,
+    height: convertedMetadata.height,
+    hasAlpha: convertedMetadata.hasAlpha,
+    space: convertedMetadata.space,
+    frames: convertedMetadata.frames,
+    duration: convertedMetadata.duration,
+    keptMetadata: convertedMetadata.keptMetadata,
+  };
+
+  return {
+    success: true,
+    data: convertedBuffer,
+    metadata,
+  };
+}
+
+/**
+ * Create a Sharp pipeline with the transforms and resize applied
+ */
+async function createPipeline(
+  buffer: Buffer,
+  options: ConversionOptions,
+  input: Pick<sharp.SharpOptions, 'animated' | 'page'>,
+): Promise<sharp.Sharp> {
+  // SVG is rasterized at this density; other formats ignore it
+  const density = await getSvgDensity(buffer, options);
+
+  // Create Sharp instance
+  let image = sharp(buffer, {
+    failOnError: false,
+    sequentialRead: true,
+    limitInputPixels: getDecodePixelLimit(),
+    density,
+    ...input,
+  });
+
+  // Crop in source pixels, before anything moves them
+  if (options.crop) {
+    const { width = 0, height = 0 } = await sharp(buffer, {
+      density,
+      limitInputPixels: getDecodePixelLimit(),
+    }).metadata();
+    if (!isCropWithinBounds(options.crop, width, height)) {
+      throw new Error('Crop area exceeds image bounds');
+    }
+    image = image.extract(options.crop);
+  }
+
+  // Apply rotate/flip/filters before resizing
+  image = applyTransforms(image, options);
+
+  // Resize if dimensions are specified (each frame is resized separately)
+  if (options.width || options.height) {
+    // Focal points are planned against the frame size after crop and rotation
+    const size =
+      typeof options.position === 'object'
+        ? await getTransformedSize(buffer, options, density)
+        : undefined;
+
+    image = applyResize(
+      image,
+      {
+        op: 'resize',
         width: options.width,
         height: options.height,
-        fit: options.fit || 'inside',
-        withoutEnlargement: true,
-      });
+        fit: options.fit,
+        position: options.position,
+      },
+      size,
+      options.background,
+      options.extend,
+    );
+  } else if (options.extend) {
+    image = applyExtend(image, options.extend, options.background);
+  }
+
+  // Formats without alpha would otherwise drop it; flatten onto the background instead
+  if (!supportsTransparency(normalizeFormat(options.outputFormat))) {
+    image = image.flatten({ background: options.background || DEFAULT_FLATTEN_BACKGROUND });
+  }
+
+  if (options.watermark) {
+    const frames = input.animated
+      ? (await sharp(buffer, { limitInputPixels: getDecodePixelLimit() }).metadata()).pages || 1
+      : 1;
+    const size = await getOutputFrameSize(buffer, options, density);
+    image = await applyWatermark(image, options.watermark, size, frames);
+  }
+
+  return image;
+}
+
+/**
+ * Resize a pipeline, honouring the position for cover and contain, then add `padding`
+ * Sharp only takes a gravity or strategy, so a focal point is resolved with
+ * planResize (which needs the current `size`); Sharp allows one extend per
+ * pipeline, so contain margins and padding are merged
+ */
+function applyResize(
+  image: sharp.Sharp,
+  operation: ResizeOperation,
+  size?: { width: number; height: number },
+  background?: sharp.Color,
+  padding?: ExtendPadding,
+): sharp.Sharp {
+  const fit = operation.fit || 'inside';
+  const { position } = operation;
+
+  if (typeof position !== 'object' || !size || (fit !== 'cover' && fit !== 'contain')) {
+    image = image.resize({
+      width: operation.width,
+      height: operation.height,
+      fit,
+      position: typeof position === 'object' ? undefined : position,
+      withoutEnlargement: operation.withoutEnlargement !== false,
+      background,
+    });
+
+    return padding ? applyExtend(image, padding, background) : image;
+  }
+
+  const plan = planResize(size.width, size.height, operation);
+
+  if (fit === 'contain') {
+    image = image.resize(plan.dest.width, plan.dest.height, { fit: 'fill' });
+
+    return applyExtend(
+      image,
+      {
+        top: plan.dest.y + (padding?.top || 0),
+        left: plan.dest.x + (padding?.left || 0),
+        bottom: plan.height - plan.dest.y - plan.dest.height + (padding?.bottom || 0),
+        right: plan.width - plan.dest.x - plan.dest.width + (padding?.right || 0),
+        background: padding?.background,
+      },
+      background,
+    );
+  }
+
+  // Scale the whole frame, then cut the planned window (a post-resize extract,
+  // so a crop option can still use the pre-resize one)
+  const scale = plan.width / plan.source.width;
+  const scaledWidth = Math.max(plan.width, Math.round(size.width * scale));
+  const scaledHeight = Math.max(plan.height, Math.round(size.height * scale));
+
+  image = image.resize(scaledWidth, scaledHeight, { fit: 'fill' }).extract({
+    left: Math.min(Math.round(plan.source.x * scale), scaledWidth - plan.width),
+    top: Math.min(Math.round(plan.source.y * scale), scaledHeight - plan.height),
+    width: plan.width,
+    height: plan.height,
+  });
+
+  return padding ? applyExtend(image, padding, background) : image;
+}
+
+/**
+ * Overlay a watermark on every `size` frame of a pipeline
+ * Sharp composites onto the stacked frames as one image, so each frame gets
+ * its own copy
+ */
+async function applyWatermark(
+  image: sharp.Sharp,
+  options: WatermarkOptions,
+  size: { width: number; height: number },
+  frames: number,
+): Promise<sharp.Sharp> {
+  const watermark = resolveWatermark(options);
+  const frameHeight = size.height;
+
+  const mark = await renderWatermark(watermark, size.width, frameHeight);
+  const placements = planWatermark(size.width, frameHeight, mark.width, mark.height, watermark);
+
+  return image.composite(
+    Array.from({ length: frames }).flatMap((_, frame) =>
+      placements.map(({ left, top }) => ({
+        input: mark.data,
+        left,
+        top: frame * frameHeight + top,
+      })),
+    ),
+  );
+}
+
+/**
+ * Render a watermark (SVG text or a decoded image) at its size for a
+ * `width` x `height` frame, with the opacity applied to its alpha
+ */
+async function renderWatermark(
+  watermark: ResolvedWatermark,
+  width: number,
+  height: number,
+): Promise<{ data: Buffer; width: number; height: number }> {
+  // Text is rendered large, then trimmed to its ink so the scale is of the text itself
+  const source = await (watermark.text !== undefined
+    ? sharp(Buffer.from(createTextSvg(watermark.text, watermark.color))).trim()
+    : sharp(Buffer.from(getBase64Payload(watermark.image || ''), 'base64'), {
+        limitInputPixels: getDecodePixelLimit(),
+      })
+  )
+    .png()
+    .toBuffer({ resolveWithObject: true });
+
+  const size = getWatermarkSize(
+    width,
+    height,
+    source.info.width / source.info.height,
+    watermark,
+  );
+
+  // dest-in keeps the mark's pixels and multiplies their alpha by the opacity
+  const data = await sharp(source.data)
+    .resize(size.width, size.height, { fit: 'fill' })
+    .composite([
+      {
+        input: {
+          create: {
+            width: 1,
+            height: 1,
+            channels: 4,
+            background: { r: 0, g: 0, b: 0, alpha: watermark.opacity },
+          },
+        },
+        tile: true,
+        blend: 'dest-in',
+      },
+    ])
+    .png()
+    .toBuffer();
+
+  return { data, ...size };
+}
+
+/**
+ * Create an SVG with a single line of text, sized generously for trimming
+ */
+function createTextSvg(text: string, color: string): string {
+  const width = (text.length + 2) * WATERMARK_FONT_SIZE;
+  const height = WATERMARK_FONT_SIZE * 2;
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">`,
+    `<text x="${WATERMARK_FONT_SIZE}" y="${WATERMARK_FONT_SIZE * 1.25}" font-family="sans-serif"`,
+    ` font-size="${WATERMARK_FONT_SIZE}" fill="${color}">${escapeXml(text)}</text>`,
+    '</svg>',
+  ].join('');
+}
+
+/**
+ * Escape text for XML content
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/**
+ * Add padding around a pipeline (colour: the padding's own, then `background`)
+ */
+function applyExtend(
+  image: sharp.Sharp,
+  padding: ExtendPadding,
+  background?: sharp.Color,
+): sharp.Sharp {
+  return image.extend({
+    top: padding.top || 0,
+    right: padding.right || 0,
+    bottom: padding.bottom || 0,
+    left: padding.left || 0,
+    background: padding.background || background,
+  });
+}
+
+/**
+ * Get the size of one frame after the crop and rotation
+ */
+async function getTransformedSize(
+  buffer: Buffer,
+  options: Pick<ConversionOptions, 'crop' | 'rotate'>,
+  density?: number,
+): Promise<{ width: number; height: number }> {
+  // Without `animated`, height is that of a single frame
+  const { width = 0, height = 0 } =
+    options.crop ||
+    (await sharp(buffer, { density, limitInputPixels: getDecodePixelLimit() }).metadata());
+  return options.rotate ? planRotation(width, height, options.rotate) : { width, height };
+}
+
+/**
+ * Get the size of one output frame, planned from the header without decoding
+ * Follows createPipeline: crop and rotation, then the resize, then padding
+ */
+async function getOutputFrameSize(
+  buffer: Buffer,
+  options: ConversionOptions,
+  density?: number,
+): Promise<{ width: number; height: number }> {
+  let size = await getTransformedSize(buffer, options, density);
+
+  if (options.width || options.height) {
+    size = planRecipeOperation(size.width, size.height, {
+      op: 'resize',
+      width: options.width,
+      height: options.height,
+      fit: options.fit,
+      position: options.position,
+    });
+  }
+
+  if (options.extend) {
+    size = planRecipeOperation(size.width, size.height, { op: 'extend', ...options.extend });
+  }
+
+  return size;
+}
+
+/**
+ * Get the density to rasterize SVG input at
+ * Without an explicit density, an SVG resized larger than its own size is
+ * rendered at that size instead of upscaled (unless cropped, since the crop
+ * is in pixels at the default density); undefined for other formats
+ */
+async function getSvgDensity(
+  buffer: Buffer,
+  options: Pick<ConversionOptions, 'density' | 'width' | 'height' | 'crop'>,
+): Promise<number | undefined> {
+  if (options.density || options.crop || !(options.width || options.height)) {
+    return options.density;
+  }
+
+  const { format, width = 0, height = 0 } = await sharp(buffer, {
+    limitInputPixels: getDecodePixelLimit(),
+  }).metadata();
+  if (format !== 'svg' || !width || !height) {
+    return undefined;
+  }
+
+  const scale = Math.max((options.width || 0) / width, (options.height || 0) / height);
+  return scale > 1 ? Math.min(MAX_SVG_DENSITY, Math.ceil(DEFAULT_SVG_DENSITY * scale)) : undefined;
+}
+
+/**
+ * Check options that depend on the input frame count
+ * Throws if they cannot be applied to an animation
+ */
+function checkAnimationOptions(options: ConversionOptions, frames: number): void {
+  // Sharp rotates and flips the stacked frames as one image, which reorders them
+  if (options.rotate || options.flip) {
+    throw new Error(
+      'Rotate and flip are not supported for animated images; set animated to false to convert the first frame',
+    );
+  }
+
+  if (Array.isArray(options.delay) && options.delay.length !== frames) {
+    throw new Error(
+      `Expected ${frames} frame delays but got ${options.delay.length}`,
+    );
+  }
+}
+
+/**
+ * Execute a transformation recipe with Sharp
+ * Each operation runs as its own pipeline so the recipe order is respected;
+ * pixels are kept raw between steps to avoid re-encoding, so every step's
+ * size is checked against `limits` before any of them run
+ */
+export async function executeRecipeServer(
+  buffer: Buffer,
+  recipe: Recipe,
+  defaults: Pick<ConversionOptions, 'outputFormat' | 'quality' | 'metadata' | 'background'>,
+  limits: ConverterLimits = getLimits(),
+): Promise<ConversionResult> {
+  try {
+    const formatOperation = getRecipeFormat(recipe);
+    const outputFormat = normalizeFormat(
+      formatOperation?.format || defaults.outputFormat,
+    );
+    const quality = formatOperation?.quality ?? defaults.quality;
+
+    let current = await toRawImage(
+      sharp(buffer, {
+        failOnError: false,
+        limitInputPixels: getDecodePixelLimit(),
+      }),
+    );
+
+    const size = validateRecipeSize(recipe, current.info.width, current.info.height, {
+      maxDimension: limits.maxDimension,
+      maxPixels: limits.maxInputPixels,
+    });
+
+    if (!size.valid) {
+      return { success: false, error: size.error };
     }
 
-    // Convert to target format with options
-    image = applyFormatConversion(image, outputFormat, options.quality);
+    for (const operation of recipe) {
+      current = await applyRecipeOperation(current, operation);
+    }
 
-    // Execute conversion
-    const convertedBuffer = await image.toBuffer();
+    // Raw pixels carry no metadata, so only written fields survive a recipe
+    let image = sharp(current.data, { raw: current.info });
 
-    // Get converted metadata
-    const convertedMetadata = await extractMetadata(convertedBuffer);
+    if (!supportsTransparency(outputFormat)) {
+      image = image.flatten({ background: defaults.background || DEFAULT_FLATTEN_BACKGROUND });
+    }
 
-    // Create result metadata
-    const metadata: ImageMetadata = {
-      originalSize: buffer.length,
-      convertedSize: convertedBuffer.length,
-      format: outputFormat,
-      width: convertedMetadata.width,
-      height: convertedMetadata.height,
-      hasAlpha: convertedMetadata.hasAlpha,
-      space: convertedMetadata.space,
-    };
+    image = applyMetadata(image, defaults.metadata);
+    image = applyFormatConversion(image, outputFormat, quality, limits.defaultQuality);
+
+    const convertedBuffer = await renderOutput(image, outputFormat);
+    const convertedMetadata = await extractOutputMetadata(
+      convertedBuffer,
+      outputFormat,
+    );
 
     return {
       success: true,
       data: convertedBuffer,
-      metadata,
+      metadata: {
+        originalSize: buffer.length,
+        convertedSize: convertedBuffer.length,
+        format: outputFormat,
+        width: convertedMetadata.width,
+        height: convertedMetadata.height,
+        hasAlpha: convertedMetadata.hasAlpha,
+        space: convertedMetadata.space,
+        keptMetadata: convertedMetadata.keptMetadata,
+      },
     };
   } catch (error) {
-    logError(error, { operation: 'convertImageServer' });
+    logError(error, { operation: 'executeRecipeServer' });
 
     return {
       success: false,
-      error: error instanceof Error ? error.message : 'Conversion failed',
+      error: error instanceof Error ? error.message : 'Recipe execution failed',
     };
   }
 }
 
+/**
+ * Run a single recipe operation on raw pixels
+ */
+async function applyRecipeOperation(
+  current: RawImage,
+  operation: RecipeOperation,
+): Promise<RawImage> {
+  const image = sharp(current.data, { raw: current.info });
+
+  switch (operation.op) {
+    case 'resize':
+      return toRawImage(
+        applyResize(
+          image,
+          operation,
+          current.info,
+          operation.background || { r: 0, g: 0, b: 0, alpha: 0 },
+        ),
+      );
+
+    case 'crop':
+      if (!isCropWithinBounds(operation, current.info.width, current.info.height)) {
+        throw new Error('Crop area exceeds image bounds');
+      }
+      return toRawImage(
+        image.extract({
+          left: operation.left,
+          top: operation.top,
+          width: operation.width,
+          height: operation.height,
+        }),
+      );
+
+    case 'rotate':
+      return toRawImage(
+        image.rotate(operation.angle, {
+          background: operation.background || { r: 0, g: 0, b: 0, alpha: 0 },
+        }),
+      );
+
+    case 'extend':
+      return toRawImage(
+        image.extend({
+          top: operation.top || 0,
+          right: operation.right || 0,
+          bottom: operation.bottom || 0,
+          left: operation.left || 0,
+          background: operation.background || { r: 0, g: 0, b: 0, alpha: 0 },
+        }),
+      );
+
+    case 'flatten':
+      return toRawImage(
+        image.flatten({
+          background: operation.background || DEFAULT_FLATTEN_BACKGROUND,
+        }),
+      );
+
+    case 'composite': {
+      // Overlay headers are checked in validateSourceBounds; decoding is capped too
+      const overlay = await sharp(Buffer.from(getBase64Payload(operation.image), 'base64'), {
+        limitInputPixels: getDecodePixelLimit(),
+      })
+        .png()
+        .toBuffer();
+      const hasPosition = operation.left !== undefined || operation.top !== undefined;
+
+      return toRawImage(
+        image.composite([
+          {
+            input: overlay,
+            left: hasPosition ? operation.left || 0 : undefined,
+            top: hasPosition ? operation.top || 0 : undefined,
+            gravity: hasPosition ? undefined : operation.gravity || 'center',
+            blend: operation.blend || 'over',
+          },
+        ]),
+      );
+    }
+
+    case 'format':
+      // Output format is applied once, after all pixel operations
+      return current;
+
+    default:
+      return current;
+  }
+}
+
+/**
+ * Render a Sharp pipeline to raw pixels
+ */
+async function toRawImage(image: sharp.Sharp): Promise<RawImage> {
+  const { data, info } = await image.raw().toBuffer({ resolveWithObject: true });
+  return { data, info };
+}
+
+/**
+ * Apply the metadata option to an output pipeline
+ */
+function applyMetadata(
+  image: sharp.Sharp,
+  option: MetadataOption | undefined,
+): sharp.Sharp {
+  const { mode, ...fields } = resolveMetadataOption(option);
+
+  if (mode === 'keep') {
+    image = image.keepMetadata();
+  } else if (mode === 'keep-icc') {
+    image = image.keepIccProfile();
+  }
+
+  const tags = getMetadataExifTags(fields);
+  if (tags) {
+    // Merge into the source EXIF when keeping it, otherwise write only these tags
+    image =
+      mode === 'keep'
+        ? image.withExifMerge({ IFD0: tags })
+        : image.withExif({ IFD0: tags });
+  }
+
+  return image;
+}
+
+/**
+ * Apply pixel transforms with Sharp
+ */
+function applyTransforms(
+  image: sharp.Sharp,
+  transforms: ImageTransforms,
+): sharp.Sharp {
+  if (transforms.rotate) {
+    image = image.rotate(transforms.rotate);
+  }
+
+  if (transforms.flip) {
+    image = image.flip();
+  }
+
+  if (transforms.flop) {
+    image = image.flop();
+  }
+
+  if (transforms.grayscale) {
+    image = image.grayscale();
+  }
+
+  if (transforms.blur !== undefined && transforms.blur > 0) {
+    image = image.blur(transforms.blur);
+  }
+
+  if (transforms.sharpen) {
+    image = image.sharpen();
+  }
+
+  return image;
+}
+
 /**
  * Apply format conversion with Sharp
+ * Loop and delay only take effect on animated GIF/WebP output
  */
 function applyFormatConversion(
   image: sharp.Sharp,
   format: ImageFormat,
-  quality?: number,
+  quality: QualityOption | undefined,
+  defaultQuality: number,
+  animation: Pick<ConversionOptions, 'loop' | 'delay'> = {},
 ): sharp.Sharp {
+  const { loop, delay } = animation;
   const useQuality = supportsQuality(format);
-  const qualityValue = useQuality && quality ? clampQuality(quality) : DEFAULT_QUALITY;
+  const qualityValue =
+    useQuality && typeof quality === 'number' ? clampQuality(quality) : defaultQuality;
 
   switch (format) {
     case 'jpg':
@@ -108,13 +1151,15 @@ function applyFormatConversion(
     case 'webp':
       return image.webp({
         quality: qualityValue,
-        effort: 6, // Compression effort (0-6, higher is slower but better)
+        effort: getConfig().effort.webp, // Compression effort (0-6, higher is slower but better)
+        loop,
+        delay,
       });
 
     case 'avif':
       return image.avif({
         quality: qualityValue,
-        effort: 4, // Compression effort (0-9)
+        effort: getConfig().effort.avif, // Compression effort (0-9)
       });
 
     case 'tiff':
@@ -123,23 +1168,83 @@ function applyFormatConversion(
       });
 
     case 'gif':
-      return image.gif();
+      return image.gif({ loop, delay });
 
     case 'bmp':
-      // Convert to PNG first, then to BMP (Sharp doesn't directly support BMP output)
-      return image.png();
+      // Sharp has no BMP writer: emit raw sRGB pixels for renderOutput to encode
+      return image.toColourspace('srgb').raw();
 
     default:
       return image;
   }
 }
 
+/**
+ * Execute a Sharp pipeline prepared by applyFormatConversion
+ */
+async function renderOutput(
+  image: sharp.Sharp,
+  format: ImageFormat,
+): Promise<Buffer> {
+  if (format !== 'bmp') {
+    return await image.toBuffer();
+  }
+
+  const { data, info } = await image.toBuffer({ resolveWithObject: true });
+  return encodeBmp(data, info);
+}
+
+/**
+ * Extract metadata from converted output
+ * BMP is read from its header since Sharp cannot decode it
+ */
+async function extractOutputMetadata(
+  buffer: Buffer,
+  format: ImageFormat,
+): Promise<ImageMetadata> {
+  if (format === 'bmp') {
+    const header = readBmpHeader(buffer);
+    if (!header) {
+      throw new Error('Failed to read BMP header');
+    }
+
+    return {
+      originalSize: buffer.length,
+      format: 'bmp',
+      width: header.width,
+      height: header.height,
+      hasAlpha: header.hasAlpha,
+      space: 'srgb',
+      frames: 1,
+      keptMetadata: { exif: false, icc: false, xmp: false, iptc: false },
+    };
+  }
+
+  const metadata = await sharp(buffer, { limitInputPixels: getDecodePixelLimit() }).metadata();
+
+  return {
+    originalSize: buffer.length,
+    format: metadata.format || 'unknown',
+    width: metadata.width || 0,
+    height: metadata.height || 0,
+    hasAlpha: metadata.hasAlpha,
+    space: metadata.space,
+    ...getFrameInfo(metadata),
+    keptMetadata: {
+      exif: Boolean(metadata.exif),
+      icc: Boolean(metadata.icc),
+      xmp: Boolean(metadata.xmp),
+      iptc: Boolean(metadata.iptc),
+    },
+  };
+}
+
 /**
  * Extract image metadata
  */
 export async function extractMetadata(buffer: Buffer): Promise<ImageMetadata> {
   try {
-    const metadata = await sharp(buffer).metadata();
+    const metadata = await sharp(buffer, { limitInputPixels: getDecodePixelLimit() }).metadata();
 
     return {
       originalSize: buffer.length,
@@ -148,6 +1253,7 @@ export async function extractMetadata(buffer: Buffer): Promise<ImageMetadata> {
       height: metadata.height || 0,
       hasAlpha: metadata.hasAlpha,
       space: metadata.space,
+      ...getFrameInfo(metadata),
     };
   } catch (error) {
     logError(error, { operation: 'extractMetadata' });
@@ -155,6 +1261,61 @@ export async function extractMetadata(buffer: Buffer): Promise<ImageMetadata> {
   }
 }
 
+/**
+ * Get the frame count and animation duration from Sharp metadata
+ */
+function getFrameInfo(
+  metadata: sharp.Metadata,
+): Required<Pick<ImageMetadata, 'frames'>> & Pick<ImageMetadata, 'duration'> {
+  const frames = metadata.pages || 1;
+
+  return {
+    frames,
+    duration: frames > 1 ? getAnimationDuration(metadata.delay) : undefined,
+  };
+}
+
+/**
+ * Inspect an image in detail without converting it
+ * Only the header and metadata blocks are read; pixels are not decoded
+ */
+export async function inspectImage(buffer: Buffer): Promise<InspectedImageMetadata> {
+  try {
+    const metadata = await sharp(buffer, { limitInputPixels: getDecodePixelLimit() }).metadata();
+    const exif = metadata.exif ? parseExif(metadata.exif) : null;
+    const warnings: string[] = [];
+
+    if (exif?.gps) {
+      warnings.push('Image contains GPS location data that reveals where it was taken');
+    }
+
+    return {
+      originalSize: buffer.length,
+      format: metadata.format || 'unknown',
+      width: metadata.width || 0,
+      height: metadata.pageHeight || metadata.height || 0,
+      hasAlpha: metadata.hasAlpha,
+      space: metadata.space,
+      channels: metadata.channels,
+      bitDepth: metadata.depth ? BIT_DEPTHS[metadata.depth] : undefined,
+      density: metadata.density,
+      ...getFrameInfo(metadata),
+      loop: metadata.loop,
+      chromaSubsampling: metadata.chromaSubsampling,
+      progressive: Boolean(metadata.isProgressive),
+      orientation: metadata.orientation,
+      iccProfile: metadata.icc ? getIccProfileName(metadata.icc) : undefined,
+      exif: exif || undefined,
+      hasXmp: Boolean(metadata.xmp),
+      hasIptc: Boolean(metadata.iptc),
+      warnings,
+    };
+  } catch (error) {
+    logError(error, { operation: 'inspectImage' });
+    throw new Error('Failed to inspect image');
+  }
+}
+
 /**
  * Resize image with Sharp
  */
@@ -165,7 +1326,7 @@ export async function resizeImageServer(
   fit: 'cover' | 'contain' | 'fill' | 'inside' | 'outside' = 'inside',
 ): Promise<Buffer> {
   try {
-    return await sharp(buffer)
+    return await sharp(buffer, { limitInputPixels: getDecodePixelLimit() })
       .resize({
         width,
         height,
@@ -185,12 +1346,13 @@ export async function resizeImageServer(
 export async function optimizeImage(
   buffer: Buffer,
   format: ImageFormat,
-  quality: number = DEFAULT_QUALITY,
+  quality?: number,
+  limits: ConverterLimits = getLimits(),
 ): Promise<Buffer> {
   try {
-    const image = sharp(buffer);
-    const optimized = applyFormatConversion(image, format, quality);
-    return await optimized.toBuffer();
+    const image = sharp(buffer, { limitInputPixels: getDecodePixelLimit() });
+    const optimized = applyFormatConversion(image, format, quality, limits.defaultQuality);
+    return await renderOutput(optimized, format);
   } catch (error) {
     logError(error, { operation: 'optimizeImage' });
     throw new Error('Failed to optimize image');
@@ -199,17 +1361,33 @@ export async function optimizeImage(
 
 /**
  * Create thumbnail
+ * `position` chooses the part of the image kept by the square crop, and
+ * transparent areas are flattened onto `background`
  */
 export async function createThumbnail(
   buffer: Buffer,
   size: number = 200,
+  position: ResizePosition = 'center',
+  background: string = DEFAULT_FLATTEN_BACKGROUND,
 ): Promise<Buffer> {
   try {
-    return await sharp(buffer)
-      .resize(size, size, {
-        fit: 'cover',
-        position: 'center',
-      })
+    const operation: ResizeOperation = {
+      op: 'resize',
+      width: size,
+      height: size,
+      fit: 'cover',
+      position,
+      withoutEnlargement: false,
+    };
+
+    const sourceSize =
+      typeof position === 'object' ? await getTransformedSize(buffer, {}) : undefined;
+
+    const image = sharp(buffer, { limitInputPixels: getDecodePixelLimit() });
+
+    // Thumbnails are JPEG, so transparency is flattened
+    return await applyResize(image, operation, sourceSize)
+      .flatten({ background })
       .jpeg({ quality: 80 })
       .toBuffer();
   } catch (error) {
@@ -226,7 +1404,7 @@ export async function rotateImage(
   angle: number,
 ): Promise<Buffer> {
   try {
-    return await sharp(buffer).rotate(angle).toBuffer();
+    return await sharp(buffer, { limitInputPixels: getDecodePixelLimit() }).rotate(angle).toBuffer();
   } catch (error) {
     logError(error, { operation: 'rotateImage' });
     throw new Error('Failed to rotate image');
@@ -238,7 +1416,7 @@ export async function rotateImage(
  */
 export async function autoOrientImage(buffer: Buffer): Promise<Buffer> {
   try {
-    return await sharp(buffer).rotate().toBuffer();
+    return await sharp(buffer, { limitInputPixels: getDecodePixelLimit() }).rotate().toBuffer();
   } catch (error) {
     logError(error, { operation: 'autoOrientImage' });
     throw new Error('Failed to auto-orient image');
@@ -256,44 +1434,18 @@ export async function convertWithAdvancedOptions(
     width?: number;
     height?: number;
     fit?: 'cover' | 'contain' | 'fill' | 'inside' | 'outside';
-    rotate?: number;
-    flip?: boolean;
-    flop?: boolean;
-    grayscale?: boolean;
-    blur?: number;
-    sharpen?: boolean;
-  },
+  } & ImageTransforms,
+  limits: ConverterLimits = getLimits(),
 ): Promise<Buffer> {
   try {
     let image = sharp(buffer, {
       failOnError: false,
       sequentialRead: true,
+      limitInputPixels: getDecodePixelLimit(),
     });
 
     // Apply transformations
-    if (options.rotate) {
-      image = image.rotate(options.rotate);
-    }
-
-    if (options.flip) {
-      image = image.flip();
-    }
-
-    if (options.flop) {
-      image = image.flop();
-    }
-
-    if (options.grayscale) {
-      image = image.grayscale();
-    }
-
-    if (options.blur !== undefined && options.blur > 0) {
-      image = image.blur(options.blur);
-    }
-
-    if (options.sharpen) {
-      image = image.sharpen();
-    }
+    image = applyTransforms(image, options);
 
     // Resize
     if (options.width || options.height) {
@@ -306,9 +1458,9 @@ export async function convertWithAdvancedOptions(
     }
 
     // Format conversion
-    image = applyFormatConversion(image, options.format, options.quality);
+    image = applyFormatConversion(image, options.format, options.quality, limits.defaultQuality);
 
-    return await image.toBuffer();
+    return await renderOutput(image, options.format);
   } catch (error) {
     logError(error, { operation: 'convertWithAdvancedOptions' });
     throw new Error('Failed to convert image with advanced options');
@@ -341,19 +1493,17 @@ export function getSharpVersion(): string {
 
 /**
  * Batch convert multiple buffers
+ * Runs up to `concurrency` conversions at once; results keep input order
  */
 export async function batchConvertBuffers(
   buffers: Buffer[],
   options: ConversionOptions,
+  concurrency: number = BATCH_CONCURRENCY,
+  limits: ConverterLimits = getLimits(),
 ): Promise<ConversionResult[]> {
-  const results: ConversionResult[] = [];
-
-  for (const buffer of buffers) {
-    const result = await convertImageServer(buffer, options);
-    results.push(result);
-  }
-
-  return results;
+  return mapWithConcurrency(buffers, concurrency, (buffer) =>
+    convertImageServer(buffer, options, limits),
+  );
 }
 
 /**
@@ -361,15 +1511,25 @@ export async function batchConvertBuffers(
  */
 export function createConversionStream(
   options: ConversionOptions,
+  limits: ConverterLimits = getLimits(),
 ): sharp.Sharp {
   const outputFormat = normalizeFormat(options.outputFormat);
-  const quality = options.quality || DEFAULT_QUALITY;
+  const quality = options.quality || limits.defaultQuality;
 
+  if (outputFormat === 'bmp') {
+    throw new Error('BMP output is not supported for stream conversion');
+  }
+
+  // The input is not known up front, so frames are only kept when asked for
   let image = sharp({
     failOnError: false,
     sequentialRead: true,
+    limitInputPixels: getDecodePixelLimit(),
+    animated: options.animated === true,
   });
 
+  image = applyTransforms(image, options);
+
   if (options.width || options.height) {
     image = image.resize({
       width: options.width,
@@ -379,7 +1539,8 @@ export function createConversionStream(
     });
   }
 
-  image = applyFormatConversion(image, outputFormat, quality);
+  image = applyMetadata(image, options.metadata);
+  image = applyFormatConversion(image, outputFormat, quality, limits.defaultQuality, options);
 
   return image;
 }
@@ -0,0 +1,115 @@
+/**
+ * Target file size search
+ * Shared by the server (Sharp) and client (Canvas) converters, which supply
+ * the encoder; quality is lowered first, then dimensions if allowed
+ */
+
+import { MAX_TARGET_SIZE_RESIZES, MIN_TARGET_QUALITY } from './formats';
+
+/**
+ * Output of one encoder run
+ */
+export interface TargetSizeAttempt<T> {
+  data: T;
+  size: number; // Bytes
+}
+
+/**
+ * Outcome of a target size search
+ * When `reached` is false, `data` is the smallest output found
+ */
+export interface TargetSizeResult<T> extends TargetSizeAttempt<T> {
+  reached: boolean;
+  quality?: number; // Quality used (lossy formats only)
+  scale: number; // Dimension scale used (1 = unchanged)
+  attempts: number; // Encoder runs
+}
+
+/**
+ * Encode at a quality (undefined for lossless formats) and dimension scale
+ */
+export type TargetSizeEncoder<T> = (
+  quality: number | undefined,
+  scale: number,
+) => Promise<TargetSizeAttempt<T>>;
+
+/**
+ * Find the highest quality (and largest scale) whose output fits in `targetSize` bytes
+ * Quality is binary searched between MIN_TARGET_QUALITY and `maxQuality`;
+ * if nothing fits and `resize` is set, the image is scaled down and searched again
+ */
+export async function searchTargetSize<T>(
+  encode: TargetSizeEncoder<T>,
+  options: {
+    targetSize: number;
+    maxQuality: number;
+    lossy: boolean; // Whether quality affects the output size
+    resize?: boolean;
+  },
+): Promise<TargetSizeResult<T>> {
+  const { targetSize, maxQuality, lossy, resize = false } = options;
+  const tried: (TargetSizeAttempt<T> & { quality?: number; scale: number })[] = [];
+  let scale = 1;
+
+  const run = async (quality: number | undefined) => {
+    const attempt = await encode(quality, scale);
+    tried.push({ ...attempt, quality, scale });
+    return attempt;
+  };
+
+  for (let step = 0; step <= MAX_TARGET_SIZE_RESIZES; step++) {
+    // Best case: the requested quality already fits
+    const highest = await run(lossy ? maxQuality : undefined);
+    if (highest.size <= targetSize) {
+      return {
+        ...highest,
+        reached: true,
+        quality: lossy ? maxQuality : undefined,
+        scale,
+        attempts: tried.length,
+      };
+    }
+
+    let lowestSize = highest.size;
+
+    if (lossy && maxQuality > MIN_TARGET_QUALITY) {
+      const lowest = await run(MIN_TARGET_QUALITY);
+      lowestSize = lowest.size;
+
+      if (lowest.size <= targetSize) {
+        // Invariant: `fits` fits, `tooLarge` does not
+        let fits = { attempt: lowest, quality: MIN_TARGET_QUALITY };
+        let tooLarge = maxQuality;
+
+        while (tooLarge - fits.quality > 1) {
+          const quality = Math.floor((fits.quality + tooLarge) / 2);
+          const attempt = await run(quality);
+
+          if (attempt.size <= targetSize) {
+            fits = { attempt, quality };
+          } else {
+            tooLarge = quality;
+          }
+        }
+
+        return {
+          ...fits.attempt,
+          reached: true,
+          quality: fits.quality,
+          scale,
+          attempts: tried.length,
+        };
+      }
+    }
+
+    if (!resize) {
+      break;
+    }
+
+    // Size scales roughly with pixel count; shrink a little more than that estimate
+    scale *= Math.min(0.9, Math.max(0.5, Math.sqrt(targetSize / lowestSize) * 0.95));
+  }
+
+  const smallest = tried.reduce((best, attempt) => (attempt.size < best.size ? attempt : best));
+  return { ...smallest, reached: false, attempts: tried.length };
+}
@@ -0,0 +1,47 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { PDFDocument, StandardFonts } from 'pdf-lib';
+import type { PDFFont } from 'pdf-lib';
+import { wrapText } from './text-pdf';
+
+describe('wrapText', () => {
+  // Courier is monospaced: every character is 6pt wide at size 10
+  let font: PDFFont;
+
+  beforeAll(async () => {
+    const document = await PDFDocument.create();
+    font = await document.embedFont(StandardFonts.Courier);
+  });
+
+  it('breaks reflowed text at spaces', () => {
+    expect(wrapText('one two three four', font, 10, 60)).toEqual(['one two', 'three four']);
+  });
+
+  it('keeps paragraphs and blank lines', () => {
+    expect(wrapText('first\n\nsecond', font, 10, 60)).toEqual(['first', '', 'second']);
+  });
+
+  it('keeps the spacing of preserved text', () => {
+    expect(wrapText('a  b      c', font, 10, 60, true)).toEqual(['a  b', 'c']);
+  });
+
+  it('breaks words wider than the line between characters', () => {
+    expect(wrapText('go abcdefghijklmnopqrstuvwxyz', font, 10, 60)).toEqual([
+      'go',
+      'abcdefghij',
+      'klmnopqrst',
+      'uvwxyz',
+    ]);
+  });
+
+  it('wraps a very long word in linear time', () => {
+    const word = 'x'.repeat(100_000);
+    const lines = wrapText(word, font, 10, 60);
+
+    expect(lines).toHaveLength(10_000);
+    expect(lines.every((line) => line.length === 10)).toBe(true);
+  });
+
+  it('puts at least one character on each line', () => {
+    expect(wrapText('abc', font, 10, 1)).toEqual(['a', 'b', 'c']);
+  });
+});
@@ -0,0 +1,605 @@
+/**
+ * Text and Markdown to PDF rendering using pdf-lib
+ * Runs in the browser and in Node.js; handles wrapping, pagination
+ * and embedded fonts for text outside the standard PDF fonts
+ */
+
+import { PDFDocument, StandardFonts, rgb } from 'pdf-lib';
+import type { PDFFont, PDFPage } from 'pdf-lib';
+import fontkit from '@pdf-lib/fontkit';
+import type { PdfFont, TextPdfOptions, TextPdfResult } from './types';
+import {
+  DEFAULT_PDF_FONT_SIZE,
+  DEFAULT_PDF_LINE_HEIGHT,
+  DEFAULT_PDF_MARGIN,
+  PDF_PAGE_SIZES,
+} from './formats';
+import { logError } from './utils';
+
+/**
+ * Standard fonts for each family
+ */
+const STANDARD_FONTS: Record<PdfFont, { regular: StandardFonts; bold: StandardFonts }> = {
+  helvetica: { regular: StandardFonts.Helvetica, bold: StandardFonts.HelveticaBold },
+  times: { regular: StandardFonts.TimesRoman, bold: StandardFonts.TimesRomanBold },
+  courier: { regular: StandardFonts.Courier, bold: StandardFonts.CourierBold },
+};
+
+/**
+ * Heading sizes relative to the body font size (h1-h6)
+ */
+const HEADING_SCALE = [1.8, 1.5, 1.3, 1.15, 1, 1];
+
+/**
+ * Spaces per tab stop
+ */
+const TAB_SIZE = 4;
+
+/**
+ * Indent per list/quote level in points
+ */
+const INDENT_STEP = 18;
+
+/**
+ * Character drawn for characters the font cannot encode
+ */
+const REPLACEMENT_CHARACTER = '?';
+
+/**
+ * Font roles used by the layout
+ */
+type FontRole = 'regular' | 'bold' | 'mono';
+
+/**
+ * Block of text to lay out
+ */
+interface TextBlock {
+  text: string;
+  role: FontRole;
+  size: number; // Font size multiplier
+  indent: number; // Indent level
+  marker?: string; // List bullet or number drawn in the hanging indent
+  preserve?: boolean; // Keep line breaks and spacing (code, plain text)
+  spaceBefore?: number; // Multiple of line height
+  quote?: boolean; // Draw a quote bar in the margin
+  rule?: boolean; // Horizontal rule
+  pageBreak?: boolean; // Start a new page
+}
+
+/**
+ * Fonts embedded in the document
+ */
+interface FontSet {
+  fonts: Record<FontRole, PDFFont>;
+  charsets: Record<FontRole, Set<number>>;
+}
+
+/**
+ * Render text or Markdown as a paginated PDF
+ */
+export async function textToPdf(
+  text: string,
+  options: TextPdfOptions = {},
+): Promise<TextPdfResult> {
+  try {
+    const {
+      pageSize = 'a4',
+      orientation = 'portrait',
+      margin = DEFAULT_PDF_MARGIN,
+      markdown = false,
+      font = markdown ? 'helvetica' : 'courier',
+      fontSize = DEFAULT_PDF_FONT_SIZE,
+      lineHeight = DEFAULT_PDF_LINE_HEIGHT,
+      fontData,
+      title,
+    } = options;
+
+    if (pageSize === 'fit') {
+      throw new Error('Text PDFs need a fixed page size');
+    }
+
+    const [portraitWidth, portraitHeight] = PDF_PAGE_SIZES[pageSize];
+    const [pageWidth, pageHeight] =
+      orientation === 'landscape'
+        ? [portraitHeight, portraitWidth]
+        : [portraitWidth, portraitHeight];
+
+    const contentWidth = pageWidth - margin * 2;
+    if (contentWidth <= fontSize * 4 || pageHeight - margin * 2 <= fontSize * lineHeight) {
+      throw new Error('Page margin leaves no room for the text');
+    }
+
+    const pdf = await PDFDocument.create();
+    pdf.setProducer('web-converter');
+    pdf.setCreationDate(new Date());
+    if (title) {
+      pdf.setTitle(title);
+    }
+
+    const normalized = normalizeText(text);
+    const fontSet = await embedFonts(pdf, font, normalized, fontData);
+    const blocks = markdown ? parseMarkdown(normalized) : parsePlainText(normalized);
+
+    let substituted = 0;
+    let page: PDFPage = pdf.addPage([pageWidth, pageHeight]);
+    let y = pageHeight - margin;
+
+    const newPage = () => {
+      page = pdf.addPage([pageWidth, pageHeight]);
+      y = pageHeight - margin;
+    };
+
+    for (const block of blocks) {
+      if (block.pageBreak) {
+        newPage();
+        continue;
+      }
+
+      const size = fontSize * block.size;
+      const leading = size * lineHeight;
+      const blockFont = fontSet.fonts[block.role];
+
+      // Skip leading space at the top of a page
+      if (block.spaceBefore && y < pageHeight - margin) {
+        y -= block.spaceBefore * leading;
+      }
+
+      if (block.rule) {
+        if (y - leading < margin) {
+          newPage();
+        }
+        y -= leading / 2;
+        page.drawLine({
+          start: { x: margin, y },
+          end: { x: pageWidth - margin, y },
+          thickness: 0.75,
+          color: rgb(0.7, 0.7, 0.7),
+        });
+        y -= leading / 2;
+        continue;
+      }
+
+      const encoded = encodeForFont(block.text, fontSet.charsets[block.role]);
+      substituted += encoded.substituted;
+
+      const marker = block.marker
+        ? encodeForFont(block.marker, fontSet.charsets[block.role]).text
+        : '';
+      const x = margin + block.indent * INDENT_STEP;
+      const markerWidth = marker ? blockFont.widthOfTextAtSize(`${marker} `, size) : 0;
+      const lines = wrapText(
+        encoded.text,
+        blockFont,
+        size,
+        pageWidth - margin - x - markerWidth,
+        block.preserve,
+      );
+
+      lines.forEach((line, index) => {
+        if (y - leading < margin) {
+          newPage();
+        }
+        y -= leading;
+
+        // Baseline sits above the bottom of the line box by the descent
+        const baseline = y + (leading - size) / 2 + size * 0.2;
+
+        if (index === 0 && marker) {
+          page.drawText(marker, { x, y: baseline, size, font: blockFont });
+        }
+        if (block.quote) {
+          page.drawLine({
+            start: { x: x - INDENT_STEP / 2, y },
+            end: { x: x - INDENT_STEP / 2, y: y + leading },
+            thickness: 2,
+            color: rgb(0.8, 0.8, 0.8),
+          });
+        }
+        if (line) {
+          page.drawText(line, {
+            x: x + markerWidth,
+            y: baseline,
+            size,
+            font: blockFont,
+            color: block.quote ? rgb(0.35, 0.35, 0.35) : rgb(0, 0, 0),
+          });
+        }
+      });
+    }
+
+    const bytes = await pdf.save();
+    const data = bytes.buffer.slice(
+      bytes.byteOffset,
+      bytes.byteOffset + bytes.byteLength,
+    ) as ArrayBuffer;
+
+    const warnings: string[] = [];
+    if (substituted > 0) {
+      warnings.push(
+        `${substituted} character(s) are not supported by the font and were replaced with "${REPLACEMENT_CHARACTER}"`,
+      );
+    }
+
+    return {
+      success: true,
+      data,
+      warnings,
+      metadata: {
+        originalSize: new TextEncoder().encode(text).length,
+        convertedSize: data.byteLength,
+        format: 'pdf',
+        width: Math.round(pageWidth),
+        height: Math.round(pageHeight),
+        pages: pdf.getPageCount(),
+      },
+    };
+  } catch (error) {
+    logError(error, { operation: 'textToPdf' });
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'PDF creation failed',
+    };
+  }
+}
+
+/**
+ * Embed the fonts used by the layout
+ * The standard fonts only cover Latin-1; when the text needs more and a custom
+ * font is given, it is subset and used for every role (it usually has no bold/mono variants)
+ */
+async function embedFonts(
+  pdf: PDFDocument,
+  family: PdfFont,
+  text: string,
+  fontData?: ArrayBuffer | Uint8Array,
+): Promise<FontSet> {
+  const standard = createFontSet({
+    regular: await pdf.embedFont(STANDARD_FONTS[family].regular),
+    bold: await pdf.embedFont(STANDARD_FONTS[family].bold),
+    mono: await pdf.embedFont(StandardFonts.Courier),
+  });
+
+  if (!fontData || encodeForFont(text, standard.charsets.regular).substituted === 0) {
+    return standard;
+  }
+
+  pdf.registerFontkit(fontkit);
+  const custom = await pdf.embedFont(fontData, { subset: true });
+  return createFontSet({ regular: custom, bold: custom, mono: custom });
+}
+
+/**
+ * Build a font set with the character set of each font
+ */
+function createFontSet(fonts: Record<FontRole, PDFFont>): FontSet {
+  return {
+    fonts,
+    charsets: {
+      regular: new Set(fonts.regular.getCharacterSet()),
+      bold: new Set(fonts.bold.getCharacterSet()),
+      mono: new Set(fonts.mono.getCharacterSet()),
+    },
+  };
+}
+
+/**
+ * Replace characters the font cannot draw
+ */
+function encodeForFont(
+  text: string,
+  charset: Set<number>,
+): { text: string; substituted: number } {
+  let substituted = 0;
+  let result = '';
+
+  for (const char of text) {
+    const codePoint = char.codePointAt(0)!;
+    if (char === '\n' || charset.has(codePoint)) {
+      result += char;
+    } else {
+      result += REPLACEMENT_CHARACTER;
+      substituted++;
+    }
+  }
+
+  return { text: result, substituted };
+}
+
+/**
+ * Normalise line endings, expand tabs and drop control characters
+ */
+function normalizeText(text: string): string {
+  return text
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) => expandTabs(line))
+    .join('\n')
+    .replace(/[\u0000-\u0008\u000B\u000E-\u001F\u007F]/g, '');
+}
+
+/**
+ * Expand tabs to the next tab stop
+ */
+function expandTabs(line: string): string {
+  let result = '';
+
+  for (const char of line) {
+    if (char === '\t') {
+      result += ' '.repeat(TAB_SIZE - (result.length % TAB_SIZE));
+    } else {
+      result += char;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Wrap text to a maximum width
+ * Reflowed text breaks at spaces; preserved text keeps its spacing.
+ * Words wider than the line (long URLs, CJK runs) break between characters.
+ */
+export function wrapText(
+  text: string,
+  font: PDFFont,
+  size: number,
+  maxWidth: number,
+  preserve: boolean = false,
+): string[] {
+  const measure = (value: string) => font.widthOfTextAtSize(value, size);
+  const lines: string[] = [];
+
+  for (const paragraph of text.split('\n')) {
+    const words = preserve
+      ? paragraph.match(/\s*\S+|\s+$/g) || ['']
+      : paragraph.split(/\s+/).filter(Boolean);
+
+    let line = '';
+
+    for (const word of words) {
+      const candidate = preserve || !line ? line + word : `${line} ${word}`;
+
+      if (measure(candidate) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+
+      if (line) {
+        lines.push(line);
+      }
+
+      // Drop the separating whitespace that caused the break
+      let rest = preserve ? word.replace(/^\s+/, '') : word;
+
+      if (measure(rest) > maxWidth) {
+        // One pass over the characters, adding up their widths
+        const chars = Array.from(rest);
+        let start = 0;
+        let width = 0;
+
+        for (let index = 0; index < chars.length; index++) {
+          const charWidth = measure(chars[index]);
+          if (index > start && width + charWidth > maxWidth) {
+            lines.push(chars.slice(start, index).join(''));
+            start = index;
+            width = 0;
+          }
+          width += charWidth;
+        }
+
+        rest = chars.slice(start).join('');
+      }
+
+      line = rest;
+    }
+
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+/**
+ * Split plain text into preserved blocks (form feeds start a new page)
+ */
+function parsePlainText(text: string): TextBlock[] {
+  const blocks: TextBlock[] = [];
+
+  text.split('\f').forEach((chunk, index) => {
+    if (index > 0) {
+      blocks.push({ text: '', role: 'regular', size: 1, indent: 0, pageBreak: true });
+    }
+    blocks.push({ text: chunk, role: 'regular', size: 1, indent: 0, preserve: true });
+  });
+
+  return blocks;
+}
+
+/**
+ * Parse Markdown into layout blocks
+ * Covers headings, paragraphs, lists, block quotes, code blocks, tables and rules;
+ * inline formatting is reduced to plain text
+ */
+function parseMarkdown(text: string): TextBlock[] {
+  const blocks: TextBlock[] = [];
+  const lines = text.split('\n');
+  let paragraph: string[] = [];
+  let paragraphQuote = false;
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({
+        text: stripInline(paragraph.join(' ')),
+        role: 'regular',
+        size: 1,
+        indent: paragraphQuote ? 1 : 0,
+        quote: paragraphQuote,
+        spaceBefore: 0.5,
+      });
+    }
+    paragraph = [];
+    paragraphQuote = false;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // Fenced code block
+    const fence = line.match(/^\s*(```|~~~)/);
+    if (fence) {
+      flushParagraph();
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i]);
+        i++;
+      }
+      blocks.push({
+        text: code.join('\n'),
+        role: 'mono',
+        size: 0.9,
+        indent: 1,
+        preserve: true,
+        spaceBefore: 0.5,
+      });
+      continue;
+    }
+
+    if (!line.trim()) {
+      flushParagraph();
+      continue;
+    }
+
+    const heading = line.match(/^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      flushParagraph();
+      blocks.push({
+        text: stripInline(heading[2]),
+        role: 'bold',
+        size: HEADING_SCALE[heading[1].length - 1],
+        indent: 0,
+        spaceBefore: 1,
+      });
+      continue;
+    }
+
+    if (/^\s{0,3}([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      flushParagraph();
+      blocks.push({ text: '', role: 'regular', size: 1, indent: 0, rule: true });
+      continue;
+    }
+
+    const listItem = line.match(/^(\s*)([-*+]|\d+[.)])\s+(.*)$/);
+    if (listItem) {
+      flushParagraph();
+      const level = Math.floor(listItem[1].replace(/\t/g, '    ').length / 2);
+      const marker = /\d/.test(listItem[2]) ? listItem[2] : '•';
+
+      // Lazy continuation lines belong to the item
+      let itemText = listItem[3];
+      while (
+        i + 1 < lines.length &&
+        lines[i + 1].trim() &&
+        /^\s+/.test(lines[i + 1]) &&
+        !/^\s*([-*+]|\d+[.)])\s+/.test(lines[i + 1])
+      ) {
+        itemText += ` ${lines[++i].trim()}`;
+      }
+
+      blocks.push({
+        text: stripInline(itemText),
+        role: 'regular',
+        size: 1,
+        indent: level + 1,
+        marker,
+        spaceBefore: 0.15,
+      });
+      continue;
+    }
+
+    // Tables keep their source layout in a monospace font
+    if (/^\s*\|.*\|\s*$/.test(line)) {
+      flushParagraph();
+      const rows: string[] = [];
+      while (i < lines.length && /^\s*\|.*\|\s*$/.test(lines[i])) {
+        rows.push(lines[i].trim());
+        i++;
+      }
+      i--;
+      blocks.push({
+        text: rows.join('\n'),
+        role: 'mono',
+        size: 0.9,
+        indent: 0,
+        preserve: true,
+        spaceBefore: 0.5,
+      });
+      continue;
+    }
+
+    // Indented code block
+    if (/^( {4}|\t)/.test(line) && paragraph.length === 0) {
+      const code: string[] = [];
+      while (i < lines.length && (/^( {4}|\t)/.test(lines[i]) || !lines[i].trim())) {
+        code.push(lines[i].replace(/^( {4}|\t)/, ''));
+        i++;
+      }
+      i--;
+      blocks.push({
+        text: code.join('\n').replace(/\n+$/, ''),
+        role: 'mono',
+        size: 0.9,
+        indent: 1,
+        preserve: true,
+        spaceBefore: 0.5,
+      });
+      continue;
+    }
+
+    const quote = line.match(/^\s*>\s?(.*)$/);
+    if (quote) {
+      if (!paragraphQuote) {
+        flushParagraph();
+        paragraphQuote = true;
+      }
+      if (quote[1].trim()) {
+        paragraph.push(quote[1].trim());
+      } else {
+        flushParagraph();
+        paragraphQuote = true;
+      }
+      continue;
+    }
+
+    if (paragraphQuote) {
+      flushParagraph();
+    }
+    paragraph.push(line.trim());
+  }
+
+  flushParagraph();
+  return blocks;
+}
+
+/**
+ * Reduce inline Markdown to plain text
+ */
+function stripInline(text: string): string {
+  return text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\(([^)\s]+)[^)]*\)/g, (_, label, url) =>
+      label === url ? url : `${label} (${url})`,
+    )
+    .replace(/<(https?:\/\/[^>]+)>/g, '$1')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/\*\*(?=\S)(.+?)(?<=\S)\*\*/g, '$1')
+    .replace(/\*(?=\S)(.+?)(?<=\S)\*/g, '$1')
+    // Underscores only count at word boundaries so snake_case survives
+    .replace(/(?<!\w)__(?=\S)(.+?)(?<=\S)__(?!\w)/g, '$1')
+    .replace(/(?<!\w)_(?=\S)(.+?)(?<=\S)_(?!\w)/g, '$1')
+    .replace(/~~(.+?)~~/g, '$1')
+    .replace(/<\/?[a-zA-Z][^>]*>/g, '')
+    .replace(/\\([\\`*_{}[\]()#+\-.!|>~])/g, '$1');
+}
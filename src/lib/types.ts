@@ -11,7 +11,18 @@ export type ImageFormat =
   | 'gif'
   | 'avif'
   | 'tiff'
-  | 'bmp';
+  | 'bmp'
+  | 'heic' // Input only (HEIC/HEIF)
+  | 'svg'; // Input only, rasterized
+
+// Supported document formats
+export type DocumentFormat = 'pdf' | 'docx' | 'html' | 'md' | 'txt';
+
+// Text formats produced by the document converter
+export type DocumentOutputFormat = 'html' | 'md' | 'txt';
+
+// Any supported file format
+export type FileFormat = ImageFormat | DocumentFormat;
 
 // Conversion method (client-side browser or server-side)
 export type ConversionMethod = 'client' | 'server';
@@ -19,27 +30,335 @@ export type ConversionMethod = 'client' | 'server';
 // Image resize fit modes
 export type ResizeFit = 'cover' | 'contain' | 'fill' | 'inside' | 'outside';
 
+/**
+ * Named placement (compass direction)
+ */
+export type Gravity =
+  | 'center'
+  | 'north'
+  | 'northeast'
+  | 'east'
+  | 'southeast'
+  | 'south'
+  | 'southwest'
+  | 'west'
+  | 'northwest';
+
+/**
+ * Content-aware crop strategies: keep the most detailed region (entropy)
+ * or the most salient one (attention)
+ */
+export type CropStrategy = 'entropy' | 'attention';
+
+/**
+ * Point to keep in frame, as fractions of the image size from the top left (0-1)
+ */
+export interface FocalPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Part of the image kept by cover, or where contain places the image
+ */
+export type ResizePosition = Gravity | CropStrategy | FocalPoint;
+
 /**
  * Request payload for file conversion
  */
-export interface ConversionRequest {
+export interface ConversionRequest extends ImageTransforms {
   file: File;
   outputFormat: ImageFormat;
-  quality?: number; // 1-100, only for lossy formats
+  quality?: QualityOption; // Only for lossy formats
+  minSsim?: number;
   width?: number;
   height?: number;
   maintainAspect?: boolean;
+  metadata?: MetadataOption;
+  animated?: boolean;
+  loop?: number;
+  delay?: number | number[];
+  extractFrames?: boolean;
+  targetSize?: number;
+  resizeToTarget?: boolean;
+}
+
+/**
+ * Encoder quality: 1-100, or 'auto' for the lowest quality whose output
+ * stays above an SSIM threshold against the source
+ */
+export type QualityOption = number | 'auto';
+
+/**
+ * What happens to EXIF/IPTC/XMP and ICC metadata
+ * - strip: remove everything (default)
+ * - keep: keep all metadata
+ * - keep-icc: keep only the ICC colour profile
+ */
+export type MetadataMode = 'strip' | 'keep' | 'keep-icc';
+
+/**
+ * Fields written into the output EXIF (IFD0)
+ */
+export interface MetadataFields {
+  copyright?: string; // EXIF Copyright
+  author?: string; // EXIF Artist
+  description?: string; // EXIF ImageDescription
+}
+
+/**
+ * Metadata mode plus fields to write
+ */
+export interface MetadataOptions extends MetadataFields {
+  mode?: MetadataMode; // Default: strip
+}
+
+/**
+ * Metadata option: a mode, or fields (optionally with a mode)
+ */
+export type MetadataOption = MetadataMode | MetadataOptions;
+
+/**
+ * Metadata blocks present in a converted image
+ */
+export interface KeptMetadata {
+  exif: boolean;
+  icc: boolean;
+  xmp: boolean;
+  iptc: boolean;
+}
+
+/**
+ * Recipe operation: resize
+ */
+export interface ResizeOperation {
+  op: 'resize';
+  width?: number;
+  height?: number;
+  fit?: ResizeFit; // Default: inside
+  position?: ResizePosition; // For cover and contain (default: center)
+  withoutEnlargement?: boolean; // Default: true
+  background?: string; // Padding colour for contain
+}
+
+/**
+ * Recipe operation: crop to a rectangle
+ */
+export interface CropOperation {
+  op: 'crop';
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Region to crop, in source pixels
+ */
+export type CropRegion = Omit<CropOperation, 'op'>;
+
+/**
+ * Recipe operation: rotate by an angle in degrees
+ */
+export interface RotateOperation {
+  op: 'rotate';
+  angle: number;
+  background?: string; // Fill for non-right angles
+}
+
+/**
+ * Recipe operation: add padding around the image
+ */
+export interface ExtendOperation {
+  op: 'extend';
+  top?: number;
+  right?: number;
+  bottom?: number;
+  left?: number;
+  background?: string;
+}
+
+/**
+ * Padding to add around the image, in output pixels
+ */
+export type ExtendPadding = Omit<ExtendOperation, 'op'>;
+
+/**
+ * Recipe operation: remove alpha by merging onto a background
+ */
+export interface FlattenOperation {
+  op: 'flatten';
+  background?: string;
+}
+
+/**
+ * Recipe operation: overlay another image
+ */
+export interface CompositeOperation {
+  op: 'composite';
+  image: string; // Base64 or data URL
+  left?: number;
+  top?: number;
+  gravity?: Gravity; // Used when left/top are not given
+  blend?: CompositeBlend;
+}
+
+/**
+ * Recipe operation: set output format
+ */
+export interface FormatOperation {
+  op: 'format';
+  format: ImageFormat;
+  quality?: number;
+}
+
+/**
+ * Composite blend modes
+ */
+export type CompositeBlend = 'over' | 'multiply' | 'screen' | 'overlay' | 'darken' | 'lighten';
+
+/**
+ * Single step of a transformation recipe
+ */
+export type RecipeOperation =
+  | ResizeOperation
+  | CropOperation
+  | RotateOperation
+  | ExtendOperation
+  | FlattenOperation
+  | CompositeOperation
+  | FormatOperation;
+
+/**
+ * Ordered list of operations applied to an image
+ */
+export type Recipe = RecipeOperation[];
+
+/**
+ * PDF page sizes ('fit' sizes each page to its image)
+ */
+export type PdfPageSize = 'a3' | 'a4' | 'a5' | 'letter' | 'legal' | 'fit';
+
+/**
+ * PDF page orientation ('auto' follows each image's aspect ratio)
+ */
+export type PdfOrientation = 'portrait' | 'landscape' | 'auto';
+
+/**
+ * How an image is placed inside the page margins
+ * - contain: scale to fit, keep aspect ratio
+ * - cover: scale to fill, crop overflow
+ * - fill: stretch to fill
+ * - none: original size (72 DPI), shrunk only if it does not fit
+ */
+export type PdfImageFit = 'contain' | 'cover' | 'fill' | 'none';
+
+/**
+ * Image-to-PDF options
+ */
+export interface PdfOptions {
+  pageSize?: PdfPageSize; // Default: a4
+  orientation?: PdfOrientation; // Default: auto
+  margin?: number; // Points (1/72 inch), default 36
+  fit?: PdfImageFit; // Default: contain
+  title?: string;
+}
+
+/**
+ * Built-in PDF font families (standard PDF fonts, Latin-1 only)
+ */
+export type PdfFont = 'helvetica' | 'times' | 'courier';
+
+/**
+ * Text/Markdown to PDF options
+ * `fontData` (TrueType/OpenType) is embedded when the text has characters
+ * outside the standard fonts; otherwise they are replaced
+ */
+export interface TextPdfOptions extends Omit<PdfOptions, 'fit'> {
+  font?: PdfFont; // Default: courier for text, helvetica for Markdown
+  fontSize?: number; // Points, default 11
+  lineHeight?: number; // Multiple of font size, default 1.4
+  fontData?: ArrayBuffer | Uint8Array; // Unicode font, embedded as a subset when needed
+  markdown?: boolean; // Render Markdown headings, lists, quotes and code blocks
+}
+
+/**
+ * Result of a text to PDF conversion
+ */
+export interface TextPdfResult extends ConversionResult {
+  warnings?: string[];
+}
+
+/**
+ * PDF page rendering options
+ */
+export interface PdfRenderOptions {
+  pages?: number[]; // 1-based page numbers, default all pages
+  dpi?: number; // Default 150
+  maxDimension?: number; // Longest rendered side, default MAX_DIMENSION
+}
+
+/**
+ * PDF page rendered to a lossless image
+ */
+export interface RenderedPdfPage {
+  page: number; // 1-based page number
+  data: Buffer; // PNG
+  width: number;
+  height: number;
+  dpi: number; // Effective DPI (lower than requested if the page was capped)
 }
 
 /**
  * Conversion options for internal processing
  */
-export interface ConversionOptions {
+export interface ConversionOptions extends ImageTransforms {
   outputFormat: ImageFormat;
-  quality?: number; // 1-100
+  quality?: QualityOption;
+  minSsim?: number; // SSIM threshold for quality 'auto' (default: DEFAULT_MIN_SSIM)
   width?: number;
   height?: number;
   fit?: ResizeFit;
+  position?: ResizePosition; // For cover and contain (default: center)
+  crop?: CropRegion; // Cut from the source before transforms and resizing
+  extend?: ExtendPadding; // Added after resizing (default colour: background)
+  density?: number; // DPI to rasterize SVG input at (default: 72, or enough for width/height)
+  background?: string; // Hex colour for padding, and for flattening when the output has no alpha (default: white)
+  watermark?: WatermarkOptions; // Overlaid after all other processing
+  recipe?: Recipe; // Replaces the resize/transform fields above when set
+  metadata?: MetadataOption; // Default: strip
+  animated?: boolean; // Keep all frames (default: when input is animated and output is GIF/WebP)
+  loop?: number; // Animation loop count, 0 = forever (default: from input)
+  delay?: number | number[]; // Frame delay in ms, for all frames or per frame (default: from input)
+  extractFrames?: boolean; // Return each frame as a separate image (single-file requests only)
+  targetSize?: number; // Max output size in bytes; quality is lowered to fit
+  resizeToTarget?: boolean; // Also scale down if the lowest quality does not fit
+}
+
+/**
+ * Text or image overlaid on the output (set exactly one of text and image)
+ */
+export interface WatermarkOptions {
+  text?: string;
+  image?: string; // Base64 or data URL
+  position?: Gravity; // Default: southeast (ignored when tiled)
+  opacity?: number; // 0-1 (default: DEFAULT_WATERMARK_OPACITY)
+  scale?: number; // Width as a fraction of the image width (default: DEFAULT_WATERMARK_SCALE)
+  margin?: number; // Pixels from the edges and between tiles (default: DEFAULT_WATERMARK_MARGIN)
+  tile?: boolean; // Repeat across the whole image
+  color?: string; // Text colour (default: DEFAULT_WATERMARK_COLOR)
+}
+
+/**
+ * Pixel transforms applied before resizing
+ */
+export interface ImageTransforms {
+  rotate?: number; // Degrees, -360 to 360
+  flip?: boolean; // Mirror vertically
+  flop?: boolean; // Mirror horizontally
+  grayscale?: boolean;
+  blur?: number; // Gaussian sigma, 0.3-100 (0 = off)
+  sharpen?: boolean;
 }
 
 /**
@@ -50,6 +369,23 @@ export interface ConversionResult {
   data?: ArrayBuffer | Blob | Buffer;
   error?: string;
   metadata?: ImageMetadata;
+  warnings?: string[]; // Non-fatal issues, such as flattened transparency
+}
+
+/**
+ * One format tried by outputFormat=auto
+ */
+export interface FormatCandidate {
+  format: ImageFormat;
+  size?: number; // Output bytes, if the conversion succeeded
+  error?: string;
+}
+
+/**
+ * Result of converting to the smallest of several formats
+ */
+export interface BestFormatResult extends ConversionResult {
+  candidates: FormatCandidate[];
 }
 
 /**
@@ -63,23 +399,96 @@ export interface ImageMetadata {
   height: number;
   hasAlpha?: boolean;
   space?: string; // color space
+  pages?: number; // Page count for document output
+  frames?: number; // Animation frames (1 for still images)
+  duration?: number; // Total animation duration in ms
+  quality?: number; // Quality chosen by a target size or 'auto' quality search
+  ssim?: number; // Structural similarity to the source (quality 'auto' only)
+  keptMetadata?: KeptMetadata; // Metadata carried into the output
+}
+
+/**
+ * GPS position from EXIF
+ */
+export interface GpsPosition {
+  latitude: number; // Decimal degrees, negative is south
+  longitude: number; // Decimal degrees, negative is west
+  altitude?: number; // Metres, negative is below sea level
+}
+
+/**
+ * EXIF fields reported by inspection (timestamps are ISO 8601)
+ */
+export interface ExifInfo {
+  make?: string;
+  model?: string;
+  lensModel?: string;
+  software?: string;
+  orientation?: number; // 1-8
+  dateTime?: string; // Last modified
+  dateTimeOriginal?: string; // Captured
+  dateTimeDigitized?: string;
+  exposureTime?: number; // Seconds
+  fNumber?: number;
+  iso?: number;
+  focalLength?: number; // Millimetres
+  gps?: GpsPosition;
+}
+
+/**
+ * Extended metadata from inspecting an image without converting it
+ */
+export interface InspectedImageMetadata extends ImageMetadata {
+  channels?: number;
+  bitDepth?: number; // Bits per sample
+  density?: number; // DPI
+  frames: number; // Pages or animation frames
+  loop?: number; // Animation loop count (0 = forever)
+  chromaSubsampling?: string; // JPEG only, e.g. 4:2:0
+  progressive: boolean; // Progressive JPEG or interlaced PNG/GIF
+  orientation?: number; // EXIF orientation (1-8)
+  iccProfile?: string; // ICC profile description
+  exif?: ExifInfo;
+  hasXmp: boolean;
+  hasIptc: boolean;
+  warnings: string[]; // Privacy and content warnings
+}
+
+/**
+ * Document conversion metadata
+ */
+export interface DocumentMetadata {
+  originalSize: number;
+  convertedSize?: number;
+  format: DocumentFormat;
+}
+
+/**
+ * Result of a document conversion (text output)
+ */
+export interface DocumentConversionResult {
+  success: boolean;
+  data?: string;
+  error?: string;
+  warnings?: string[]; // Non-fatal issues, e.g. unsupported styles
+  metadata?: DocumentMetadata;
 }
 
 /**
  * Format capability definition
  */
 export interface FormatCapability {
-  from: ImageFormat;
-  to: ImageFormat[];
+  from: FileFormat;
+  to: FileFormat[];
   method: ConversionMethod;
 }
 
 /**
  * Category of file formats
  */
-export interface FormatCategory {
-  client: ImageFormat[];
-  server: ImageFormat[];
+export interface FormatCategory<T extends FileFormat = ImageFormat> {
+  client: T[];
+  server: T[];
 }
 
 /**
@@ -88,7 +497,7 @@ export interface FormatCategory {
 export interface FormatSupport {
   formats: {
     image: FormatCategory;
-    document?: FormatCategory; // Future: PDF, DOCX, etc.
+    document?: FormatCategory<DocumentFormat>;
   };
   conversions: FormatCapability[];
   limits: FileLimits;
@@ -101,6 +510,42 @@ export interface FileLimits {
   maxFileSize: number; // in bytes
   maxDimensions: number; // max width or height
   minDimensions?: number; // min width or height
+  maxInputPixels?: number; // max width x height of an input image
+  maxInputDimensions?: number; // max input width or height
+  defaultQuality?: number; // quality used when none is given
+  allowedMimeTypes?: string[]; // accepted image upload types
+}
+
+/**
+ * Upload limits and conversion defaults, per deployment or per API key
+ */
+export interface ConverterLimits {
+  maxFileSize: number; // in bytes
+  maxDimension: number; // max output width or height
+  maxInputPixels: number; // max width x height of an input image
+  maxInputDimension: number; // max input width or height
+  defaultQuality: number; // 1-100
+  allowedMimeTypes: string[]; // accepted image upload types
+  maxBatchFiles: number; // files in one batch or PDF request
+  maxBatchSize: number; // combined size of a batch or PDF request, in bytes
+}
+
+/**
+ * Sharp compression effort for encoders that support it
+ */
+export interface EncoderEffort {
+  webp: number; // 0-6
+  avif: number; // 0-9
+}
+
+/**
+ * Server configuration
+ * `apiKeys` override deployment limits for requests sending that key
+ */
+export interface ConverterConfig {
+  limits: ConverterLimits;
+  effort: EncoderEffort;
+  apiKeys: Record<string, Partial<ConverterLimits>>;
 }
 
 /**
@@ -147,20 +592,113 @@ export interface MimeTypeMap {
  * File magic bytes (signature) for format detection
  */
 export interface FileMagicBytes {
-  format: ImageFormat;
+  format: FileFormat;
   signature: number[];
   offset?: number;
+  brands?: string[]; // ISO-BMFF: the ftyp box must list one of these brands
+}
+
+/**
+ * Per-file entry in a batch conversion manifest
+ */
+export interface BatchManifestEntry {
+  filename: string; // Original filename
+  success: boolean;
+  outputFilename?: string; // Path inside the ZIP archive
+  format?: ImageFormat;
+  originalSize: number;
+  convertedSize?: number;
+  error?: string;
+  code?: string;
+  warnings?: string[]; // e.g. content did not match the declared type or lost transparency
+}
+
+/**
+ * Manifest included with batch conversion results
+ */
+export interface BatchManifest {
+  total: number;
+  succeeded: number;
+  failed: number;
+  files: BatchManifestEntry[];
+}
+
+/**
+ * Options for generating a responsive image set
+ */
+export interface ResponsiveOptions {
+  widths: number[]; // Variant widths; wider than the source are skipped
+  formats: ImageFormat[]; // <source> order; the last format is the <img> fallback
+  quality?: QualityOption;
+  sizes?: string; // <img sizes> attribute (default: 100vw)
+  alt?: string;
+}
+
+/**
+ * One image in a responsive image set
+ */
+export interface ResponsiveVariant {
+  width: number;
+  height: number;
+  bytes: number;
+  format: ImageFormat;
+  path: string; // Path inside the ZIP archive
 }
 
 /**
- * Conversion progress (for future async operations)
+ * Manifest included with a responsive image set
+ */
+export interface ResponsiveManifest {
+  source: {
+    filename: string;
+    width: number;
+    height: number;
+    format: string;
+  };
+  sizes: string;
+  variants: ResponsiveVariant[];
+}
+
+/**
+ * Async conversion job status
+ */
+export type JobStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+/**
+ * Conversion progress (for async operations)
  */
 export interface ConversionProgress {
   jobId: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: JobStatus;
   progress: number; // 0-100
   error?: string;
   resultUrl?: string;
+  warnings?: string[]; // e.g. transparency flattened for the output format
+}
+
+/**
+ * Async conversion job record
+ */
+export interface ConversionJob extends ConversionProgress {
+  filename: string; // Output filename
+  mimeType: string; // Output MIME type
+  options: ConversionOptions;
+  createdAt: string;
+  updatedAt: string;
+  expiresAt: string;
+  metadata?: ImageMetadata;
+}
+
+/**
+ * Storage backend for async conversion jobs
+ */
+export interface JobStore {
+  get(jobId: string): Promise<ConversionJob | null>;
+  save(job: ConversionJob): Promise<void>;
+  delete(jobId: string): Promise<void>;
+  list(): Promise<ConversionJob[]>;
+  saveResult(jobId: string, data: Buffer): Promise<void>;
+  getResult(jobId: string): Promise<ReadableStream<Uint8Array> | null>;
 }
 
 /**
@@ -194,6 +732,18 @@ export enum ErrorCode {
   INVALID_DIMENSIONS = 'INVALID_DIMENSIONS',
   MISSING_PARAMETER = 'MISSING_PARAMETER',
   INVALID_QUALITY = 'INVALID_QUALITY',
+  INVALID_ROTATION = 'INVALID_ROTATION',
+  INVALID_BLUR = 'INVALID_BLUR',
+  TOO_MANY_FILES = 'TOO_MANY_FILES',
+  INVALID_RECIPE = 'INVALID_RECIPE',
+  INVALID_PAGE_OPTIONS = 'INVALID_PAGE_OPTIONS',
+  INVALID_METADATA = 'INVALID_METADATA',
+  INVALID_ANIMATION_OPTIONS = 'INVALID_ANIMATION_OPTIONS',
+  INVALID_TARGET_SIZE = 'INVALID_TARGET_SIZE',
+  INVALID_POSITION = 'INVALID_POSITION',
+  INVALID_COLOR = 'INVALID_COLOR',
+  INVALID_WATERMARK = 'INVALID_WATERMARK',
+  FORMAT_MISMATCH = 'FORMAT_MISMATCH',
 
   // Processing errors (422)
   CONVERSION_FAILED = 'CONVERSION_FAILED',
@@ -201,6 +751,11 @@ export enum ErrorCode {
   UNSUPPORTED_OPERATION = 'UNSUPPORTED_OPERATION',
   DIMENSION_LIMIT_EXCEEDED = 'DIMENSION_LIMIT_EXCEEDED',
 
+  // Job errors
+  JOB_NOT_FOUND = 'JOB_NOT_FOUND',
+  JOB_NOT_READY = 'JOB_NOT_READY',
+  JOB_QUEUE_FULL = 'JOB_QUEUE_FULL',
+
   // Server errors (5xx)
   INTERNAL_ERROR = 'INTERNAL_ERROR',
   SHARP_ERROR = 'SHARP_ERROR',
@@ -213,10 +768,12 @@ export enum ErrorCode {
  */
 export enum HttpStatus {
   OK = 200,
+  ACCEPTED = 202,
   BAD_REQUEST = 400,
   UNAUTHORIZED = 401,
   FORBIDDEN = 403,
   NOT_FOUND = 404,
+  CONFLICT = 409,
   PAYLOAD_TOO_LARGE = 413,
   UNSUPPORTED_MEDIA_TYPE = 415,
   UNPROCESSABLE_ENTITY = 422,
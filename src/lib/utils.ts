@@ -2,8 +2,9 @@
  * Utility functions for file conversion
  */
 
-import type { ApiError, ImageFormat } from './types';
+import type { ApiError, FileFormat } from './types';
 import { ErrorCode, HttpStatus } from './types';
+import { getIsoBmffFormat } from './isobmff';
 
 /**
  * Sanitize filename to prevent directory traversal and other attacks
@@ -56,6 +57,22 @@ export function formatFileSize(bytes: number): string {
   return Math.round((bytes / Math.pow(k, i)) * 100) / 100 + ' ' + sizes[i];
 }
 
+/**
+ * Parse a file size such as "200KB", "1.5 MB" or "51200" (bytes)
+ * Returns NaN if the value is not a size, so validation can report it
+ */
+export function parseFileSize(value: string): number {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(b|bytes|kb|mb)?$/i);
+  if (!match) {
+    return NaN;
+  }
+
+  const multipliers: Record<string, number> = { b: 1, bytes: 1, kb: 1024, mb: 1024 * 1024 };
+  const unit = (match[2] || 'b').toLowerCase();
+
+  return Math.round(parseFloat(match[1]) * multipliers[unit]);
+}
+
 /**
  * Create API error response
  */
@@ -83,14 +100,26 @@ export function getHttpStatusFromErrorCode(code: ErrorCode): number {
     case ErrorCode.INVALID_FORMAT:
     case ErrorCode.MISSING_PARAMETER:
     case ErrorCode.INVALID_QUALITY:
+    case ErrorCode.INVALID_ROTATION:
+    case ErrorCode.INVALID_BLUR:
+    case ErrorCode.INVALID_RECIPE:
+    case ErrorCode.INVALID_PAGE_OPTIONS:
+    case ErrorCode.INVALID_METADATA:
+    case ErrorCode.INVALID_ANIMATION_OPTIONS:
+    case ErrorCode.INVALID_TARGET_SIZE:
+    case ErrorCode.INVALID_POSITION:
+    case ErrorCode.INVALID_COLOR:
+    case ErrorCode.INVALID_WATERMARK:
       return HttpStatus.BAD_REQUEST;
 
     // File size errors (413)
     case ErrorCode.FILE_TOO_LARGE:
+    case ErrorCode.TOO_MANY_FILES:
       return HttpStatus.PAYLOAD_TOO_LARGE;
 
     // Unsupported format (415)
     case ErrorCode.UNSUPPORTED_FORMAT:
+    case ErrorCode.FORMAT_MISMATCH:
       return HttpStatus.UNSUPPORTED_MEDIA_TYPE;
 
     // Processing errors (422)
@@ -102,6 +131,16 @@ export function getHttpStatusFromErrorCode(code: ErrorCode): number {
     case ErrorCode.INVALID_DIMENSIONS:
       return HttpStatus.UNPROCESSABLE_ENTITY;
 
+    // Job errors
+    case ErrorCode.JOB_NOT_FOUND:
+      return HttpStatus.NOT_FOUND;
+
+    case ErrorCode.JOB_NOT_READY:
+      return HttpStatus.CONFLICT;
+
+    case ErrorCode.JOB_QUEUE_FULL:
+      return HttpStatus.SERVICE_UNAVAILABLE;
+
     // Server errors (500)
     case ErrorCode.INTERNAL_ERROR:
     case ErrorCode.SHARP_ERROR:
@@ -117,8 +156,10 @@ export function getHttpStatusFromErrorCode(code: ErrorCode): number {
 /**
  * Detect MIME type from file buffer (magic bytes)
  */
-export function detectMimeTypeFromBuffer(buffer: ArrayBuffer): string | null {
-  const uint8Array = new Uint8Array(buffer);
+export function detectMimeTypeFromBuffer(
+  buffer: ArrayBuffer | Uint8Array,
+): string | null {
+  const uint8Array = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
 
   // Check for common image formats
   if (uint8Array.length < 12) return null;
@@ -165,6 +206,12 @@ export function detectMimeTypeFromBuffer(buffer: ArrayBuffer): string | null {
     return 'image/webp';
   }
 
+  // AVIF and HEIC/HEIF (ISO-BMFF ftyp box, told apart by its brands)
+  const isoBmffFormat = getIsoBmffFormat(uint8Array);
+  if (isoBmffFormat) {
+    return isoBmffFormat === 'avif' ? 'image/avif' : 'image/heic';
+  }
+
   // BMP
   if (uint8Array[0] === 0x42 && uint8Array[1] === 0x4d) {
     return 'image/bmp';
@@ -190,9 +237,95 @@ export function detectMimeTypeFromBuffer(buffer: ArrayBuffer): string | null {
     return 'image/tiff';
   }
 
+  // PDF (%PDF)
+  if (
+    uint8Array[0] === 0x25 &&
+    uint8Array[1] === 0x50 &&
+    uint8Array[2] === 0x44 &&
+    uint8Array[3] === 0x46
+  ) {
+    return 'application/pdf';
+  }
+
+  // ZIP (PK\x03\x04) - DOCX if it contains the main document part
+  if (
+    uint8Array[0] === 0x50 &&
+    uint8Array[1] === 0x4b &&
+    uint8Array[2] === 0x03 &&
+    uint8Array[3] === 0x04
+  ) {
+    return containsAscii(uint8Array, 'word/document.xml')
+      ? 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+      : 'application/zip';
+  }
+
+  // SVG (text, so checked last)
+  if (isSvg(uint8Array)) {
+    return 'image/svg+xml';
+  }
+
   return null;
 }
 
+/**
+ * Check if bytes are an SVG document
+ * SVG has no signature: skip the XML declaration, processing instructions,
+ * comments and doctype, then look for an <svg> root element
+ */
+export function isSvg(bytes: Uint8Array): boolean {
+  if (!isLikelyText(bytes)) {
+    return false;
+  }
+
+  const start = new TextDecoder().decode(bytes.subarray(0, 4096));
+  return /^\uFEFF?\s*(<\?[\s\S]*?\?>\s*|<!--[\s\S]*?-->\s*|<!DOCTYPE[^>[]*(\[[\s\S]*?\])?\s*>\s*)*<svg[\s>]/i.test(
+    start,
+  );
+}
+
+/**
+ * Check if bytes contain an ASCII string
+ * (ZIP entry names are stored uncompressed in the headers)
+ */
+export function containsAscii(bytes: Uint8Array, text: string): boolean {
+  const codes = Array.from(text, (char) => char.charCodeAt(0));
+  const last = bytes.length - codes.length;
+
+  for (let i = 0; i <= last; i++) {
+    let match = true;
+    for (let j = 0; j < codes.length; j++) {
+      if (bytes[i + j] !== codes[j]) {
+        match = false;
+        break;
+      }
+    }
+    if (match) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Check if bytes look like UTF-8 text (no NUL bytes, decodes cleanly)
+ */
+export function isLikelyText(bytes: Uint8Array): boolean {
+  // Only inspect the start; trailing bytes may split a multi-byte character
+  const sample = bytes.subarray(0, 8192);
+
+  if (sample.includes(0)) {
+    return false;
+  }
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: true });
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
 /**
  * Validate quality parameter
  */
@@ -219,7 +352,7 @@ export function isImageFile(mimeType: string): boolean {
  */
 export function generateOutputFilename(
   inputFilename: string,
-  outputFormat: ImageFormat,
+  outputFormat: FileFormat,
 ): string {
   const sanitized = sanitizeFilename(inputFilename);
   return changeExtension(sanitized, outputFormat);
@@ -265,6 +398,39 @@ export function parseBooleanField(
   return value === 'true' || value === '1';
 }
 
+/**
+ * Parse a list form field: a JSON array or comma-separated values
+ */
+export function parseListField(
+  value: string | null | undefined,
+): string[] | undefined {
+  const parsed = parseJsonField(value);
+
+  if (parsed === undefined) {
+    return undefined;
+  }
+
+  const items = Array.isArray(parsed) ? parsed : String(parsed).split(',');
+  return items.map((item) => String(item).trim()).filter(Boolean);
+}
+
+/**
+ * Parse JSON form field
+ * Returns the raw string if it is not valid JSON so validation can report it
+ */
+export function parseJsonField(
+  value: string | null | undefined,
+): unknown {
+  if (value === null || value === undefined || value === '') {
+    return undefined;
+  }
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    return value;
+  }
+}
+
 /**
  * Convert Buffer to ArrayBuffer
  */
@@ -397,6 +563,83 @@ export function calculateDimensions(
   return { width: originalWidth, height: originalHeight };
 }
 
+/**
+ * Map over items with at most `concurrency` calls in flight
+ * Results keep the order of the input
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+
+  return results;
+}
+
+/**
+ * Make a filename unique within a set of already used names
+ * (photo.png, photo_1.png, photo_2.png, ...)
+ */
+export function makeUniqueFilename(
+  filename: string,
+  usedNames: Set<string>,
+): string {
+  let candidate = filename;
+  let counter = 1;
+
+  while (usedNames.has(candidate)) {
+    const dotIndex = filename.lastIndexOf('.');
+    candidate =
+      dotIndex > 0
+        ? `${filename.slice(0, dotIndex)}_${counter}${filename.slice(dotIndex)}`
+        : `${filename}_${counter}`;
+    counter++;
+  }
+
+  usedNames.add(candidate);
+  return candidate;
+}
+
+/**
+ * Parse a page range such as "1-3,5,8-" into sorted, unique 1-based page numbers
+ * Returns null if the range is malformed or outside 1..pageCount
+ */
+export function parsePageRange(spec: string, pageCount: number): number[] | null {
+  const pages = new Set<number>();
+
+  for (const part of spec.split(',').map((value) => value.trim())) {
+    const match = part.match(/^(\d*)\s*-\s*(\d*)$|^(\d+)$/);
+    if (!match || part === '-') {
+      return null;
+    }
+
+    const start = Number(match[3] ?? (match[1] || 1));
+    const end = Number(match[3] ?? (match[2] || pageCount));
+
+    if (start < 1 || end > pageCount || start > end) {
+      return null;
+    }
+
+    for (let page = start; page <= end; page++) {
+      pages.add(page);
+    }
+  }
+
+  return Array.from(pages).sort((a, b) => a - b);
+}
+
 /**
  * Retry function with exponential backoff
  */
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { ErrorCode } from './types';
+import { sanitizeSvg, validateConversionParameters } from './validator';
+
+describe('validateConversionParameters', () => {
+  const recipe = [{ op: 'resize', width: 100 }];
+
+  it('accepts a recipe with output settings', () => {
+    expect(
+      validateConversionParameters({
+        inputFormat: 'png',
+        outputFormat: 'webp',
+        quality: 80,
+        background: '#000000',
+        recipe,
+      }),
+    ).toEqual({ valid: true });
+  });
+
+  it('rejects flat geometry options sent with a recipe', () => {
+    const result = validateConversionParameters({
+      inputFormat: 'png',
+      outputFormat: 'webp',
+      width: 200,
+      rotate: 90,
+      flip: false,
+      recipe,
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.code).toBe(ErrorCode.INVALID_RECIPE);
+    expect(result.details?.options).toEqual(['width', 'rotate']);
+  });
+});
+
+describe('sanitizeSvg', () => {
+  it('keeps safe markup unchanged', () => {
+    const svg = [
+      '<?xml version="1.0"?>',
+      '<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink">',
+      '<defs><linearGradient id="g"><stop offset="0" stop-color="#fff"/></linearGradient></defs>',
+      '<rect width="10" height="10" fill="url(#g)" title="a &amp; b"/>',
+      '<use xlink:href="#g"/><image href="data:image/png;base64,AAAA"/>',
+      '</svg>',
+    ].join('');
+
+    expect(sanitizeSvg(svg)).toEqual({ svg, removed: [] });
+  });
+
+  it('removes a doctype whose internal subset contains "]>"', () => {
+    const svg =
+      '<!DOCTYPE svg [<!ENTITY a "]>"><!ENTITY b "x">]><svg>&b;<script>alert(1)</script></svg>';
+
+    expect(sanitizeSvg(svg)).toEqual({ svg: '<svg></svg>', removed: ['doctype', 'script'] });
+  });
+
+  it('removes event handlers whatever their case or prefix', () => {
+    const { svg, removed } = sanitizeSvg(
+      '<svg ONLOAD="alert(1)"><rect title="a>b" x:onclick=\'alert(1)\' width="1"/></svg>',
+    );
+
+    expect(svg).toBe('<svg><rect title="a>b" width="1"/></svg>');
+    expect(removed).toEqual(['event handlers']);
+  });
+
+  it('checks references after decoding entities', () => {
+    const { svg, removed } = sanitizeSvg(
+      [
+        '<svg><a href="&#x6a;avascript:alert(1)"><text>x</text></a>',
+        '<a XLINK:HREF="java&#9;script:alert(1)"/>',
+        '<image src=" http://example.com/a.png"/></svg>',
+      ].join(''),
+    );
+
+    expect(svg).toBe('<svg><a><text>x</text></a><a/><image/></svg>');
+    expect(removed).toEqual(['external references']);
+  });
+
+  it('removes namespaced and nested unsafe elements with their content', () => {
+    const { svg, removed } = sanitizeSvg(
+      '<svg><svg:script>alert(1)</svg:script><foreignobject><div><p>x</p></div></foreignobject><g/></svg>',
+    );
+
+    expect(svg).toBe('<svg><g/></svg>');
+    expect(removed).toEqual(['script', 'foreignObject']);
+  });
+
+  it('removes animations that target links', () => {
+    const { svg, removed } = sanitizeSvg(
+      '<svg><a><set attributeName="xlink:href" to="javascript:alert(1)"/></a></svg>',
+    );
+
+    expect(svg).toBe('<svg><a></a></svg>');
+    expect(removed).toEqual(['link animations']);
+  });
+
+  it('removes external CSS references', () => {
+    const { svg, removed } = sanitizeSvg(
+      [
+        '<svg><style>@import "http://example.com/a.css"; rect { fill: url(http://example.com/a) }</style>',
+        '<style><![CDATA[g { fill: url(#g) }]]></style>',
+        '<rect style="fill: u\\72l(http://example.com/a)"/></svg>',
+      ].join(''),
+    );
+
+    expect(svg).toBe(
+      [
+        '<svg><style> rect { fill: none }</style>',
+        '<style><![CDATA[g { fill: url(#g) }]]></style>',
+        '<rect style=""/></svg>',
+      ].join(''),
+    );
+    expect(removed).toEqual(['external references']);
+  });
+
+  it('ignores markup inside comments and drops processing instructions', () => {
+    const { svg, removed } = sanitizeSvg(
+      '<?xml-stylesheet href="http://example.com/a.css"?><svg><!-- <script> --></svg>',
+    );
+
+    expect(svg).toBe('<svg></svg>');
+    expect(removed).toEqual(['processing instructions']);
+  });
+});
@@ -2,24 +2,92 @@
  * File validation functions
  */
 
-import type { ValidationResult, ImageFormat } from './types';
+import type {
+  ConversionOptions,
+  ConverterLimits,
+  CropRegion,
+  CropStrategy,
+  ValidationResult,
+  ExtendPadding,
+  DocumentFormat,
+  FileFormat,
+  ImageFormat,
+  ImageTransforms,
+  MetadataMode,
+  PdfOptions,
+  PdfRenderOptions,
+  QualityOption,
+  Recipe,
+  ResizeFit,
+  ResponsiveOptions,
+  TextPdfOptions,
+} from './types';
 import { ErrorCode } from './types';
 import {
   MAX_FILE_SIZE,
   MAX_DIMENSION,
   MIN_DIMENSION,
+  MAX_INPUT_PIXELS,
+  MAX_INPUT_DIMENSION,
+  MAX_ROTATION,
+  MIN_BLUR_SIGMA,
+  MAX_BLUR_SIGMA,
+  MAX_PDF_MARGIN,
+  MIN_PDF_FONT_SIZE,
+  MAX_PDF_FONT_SIZE,
+  MIN_PDF_LINE_HEIGHT,
+  MAX_PDF_LINE_HEIGHT,
+  MIN_PDF_RENDER_DPI,
+  MAX_PDF_RENDER_DPI,
+  MAX_PDF_RENDER_PAGES,
+  MIN_TARGET_SIZE,
+  MIN_SSIM_THRESHOLD,
+  MAX_SSIM_THRESHOLD,
+  MAX_ANIMATION_LOOP,
+  MAX_FRAME_DELAY,
+  ANIMATED_FORMATS,
+  MAX_RESPONSIVE_WIDTHS,
+  MIN_SVG_DENSITY,
+  MAX_SVG_DENSITY,
+  RESPONSIVE_FORMATS,
+  RESIZE_FITS,
+  CROP_STRATEGIES,
   ALLOWED_MIME_TYPES,
+  ALLOWED_DOCUMENT_MIME_TYPES,
+  GENERIC_MIME_TYPES,
   MAGIC_BYTES,
+  getFormatFromExtension,
+  getFormatFromMime,
+  getMimeType,
   isSupportedFormat,
+  normalizeFormat,
   isConversionSupported,
+  supportsAnimation,
   supportsQuality,
+  supportsTransparency,
 } from './formats';
 import {
   sanitizeFilename,
   detectMimeTypeFromBuffer,
   validateQuality,
   validateDimensions,
+  isLikelyText,
 } from './utils';
+import {
+  COLOR_SCHEMA,
+  DEFAULT_FLATTEN_BACKGROUND,
+  POSITION_SCHEMA,
+  checkSchema,
+  createCropRegionSchema,
+  createExtendPaddingSchema,
+  createRecipeSchema,
+  isCropWithinBounds,
+  planRecipeOperation,
+} from './recipe';
+import { MAX_METADATA_FIELD_LENGTH, METADATA_MODES } from './metadata';
+import type { AnimationOptions } from './animation';
+import { WATERMARK_SCHEMA } from './watermark';
+import { readImageDimensions } from './image-header';
 
 /**
  * Validate file type using MIME type
@@ -104,6 +172,52 @@ export function validateImageDimensions(
   return { valid: true };
 }
 
+/**
+ * Validate the dimensions an image declares in its header against the pixel budget
+ * Runs before decoding, so a small file claiming a huge canvas is never allocated.
+ * Images whose header cannot be read pass; the decoder's own pixel limit still applies
+ */
+export function validateImagePixels(
+  bytes: Uint8Array,
+  options?: {
+    maxPixels?: number;
+    maxDimension?: number;
+    density?: number; // SVG rasterization density
+  },
+): ValidationResult {
+  const {
+    maxPixels = MAX_INPUT_PIXELS,
+    maxDimension = MAX_INPUT_DIMENSION,
+    density,
+  } = options || {};
+
+  const dimensions = readImageDimensions(bytes, density);
+  if (!dimensions) {
+    return { valid: true };
+  }
+
+  const { width, height } = dimensions;
+  const pixels = width * height;
+
+  if (pixels > maxPixels || width > maxDimension || height > maxDimension) {
+    return {
+      valid: false,
+      error: 'Image dimensions exceed the pixel limit',
+      code: ErrorCode.DIMENSION_LIMIT_EXCEEDED,
+      details: {
+        width,
+        height,
+        pixels,
+        maxPixels,
+        maxDimension,
+      },
+    };
+  }
+
+  // Zero-sized images cannot be decoded either
+  return validateImageDimensions(width, height, maxDimension);
+}
+
 /**
  * Validate format
  */
@@ -126,8 +240,8 @@ export function validateFormat(format: string): ValidationResult {
  * Validate conversion
  */
 export function validateConversion(
-  fromFormat: ImageFormat,
-  toFormat: ImageFormat,
+  fromFormat: FileFormat,
+  toFormat: FileFormat,
 ): ValidationResult {
   if (!isConversionSupported(fromFormat, toFormat)) {
     return {
@@ -145,34 +259,760 @@ export function validateConversion(
 }
 
 /**
- * Validate quality parameter
+ * Validate quality parameter
+ */
+export function validateQualityParameter(
+  quality: QualityOption | undefined,
+  format: ImageFormat,
+): ValidationResult {
+  if (quality === undefined) {
+    return { valid: true };
+  }
+
+  if (quality !== 'auto' && !validateQuality(quality)) {
+    return {
+      valid: false,
+      error: 'Invalid quality value',
+      code: ErrorCode.INVALID_QUALITY,
+      details: {
+        quality,
+        validRange: '1-100 or auto',
+      },
+    };
+  }
+
+  // Warn if quality is specified for lossless format (but don't fail)
+  if (!supportsQuality(format)) {
+    return {
+      valid: true,
+      details: {
+        warning: `Quality parameter ignored for ${format} format`,
+      },
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validate pixel transform parameters
+ */
+export function validateTransforms(transforms: ImageTransforms): ValidationResult {
+  const { rotate, blur } = transforms;
+
+  if (
+    rotate !== undefined &&
+    (!Number.isFinite(rotate) || Math.abs(rotate) > MAX_ROTATION)
+  ) {
+    return {
+      valid: false,
+      error: 'Invalid rotation angle',
+      code: ErrorCode.INVALID_ROTATION,
+      details: {
+        rotate,
+        validRange: `-${MAX_ROTATION} to ${MAX_ROTATION}`,
+      },
+    };
+  }
+
+  // A blur of 0 disables blurring
+  if (
+    blur !== undefined &&
+    blur !== 0 &&
+    (!Number.isFinite(blur) || blur < MIN_BLUR_SIGMA || blur > MAX_BLUR_SIGMA)
+  ) {
+    return {
+      valid: false,
+      error: 'Invalid blur value',
+      code: ErrorCode.INVALID_BLUR,
+      details: {
+        blur,
+        validRange: `0 or ${MIN_BLUR_SIGMA}-${MAX_BLUR_SIGMA}`,
+      },
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validate a transformation recipe against the recipe schema
+ */
+export function validateRecipe(
+  recipe: unknown,
+  maxDimension: number = MAX_DIMENSION,
+): ValidationResult {
+  const errors = checkSchema(recipe, createRecipeSchema(maxDimension));
+
+  if (errors.length > 0) {
+    return {
+      valid: false,
+      error: 'Invalid recipe',
+      code: ErrorCode.INVALID_RECIPE,
+      details: {
+        errors,
+      },
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validate the size of every step of a recipe run on a `width` x `height` image
+ * Steps are held as raw pixels, so none may grow the image past `maxDimension`
+ * a side (or past its current size, for larger inputs) or `maxPixels` in total
+ */
+export function validateRecipeSize(
+  recipe: Recipe,
+  width: number,
+  height: number,
+  limits: {
+    maxDimension?: number;
+    maxPixels?: number;
+  } = {},
+): ValidationResult {
+  const { maxDimension = MAX_DIMENSION, maxPixels = MAX_INPUT_PIXELS } = limits;
+  let size = { width, height };
+
+  for (const [step, operation] of recipe.entries()) {
+    const next = planRecipeOperation(size.width, size.height, operation);
+
+    if (
+      next.width > Math.max(maxDimension, size.width) ||
+      next.height > Math.max(maxDimension, size.height) ||
+      next.width * next.height > maxPixels
+    ) {
+      return {
+        valid: false,
+        error: 'Recipe step exceeds the dimension limit',
+        code: ErrorCode.DIMENSION_LIMIT_EXCEEDED,
+        details: {
+          step,
+          op: operation.op,
+          width: next.width,
+          height: next.height,
+          maxDimension,
+          maxPixels,
+        },
+      };
+    }
+
+    size = next;
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validate the resize fit and position
+ * Content-aware strategies only choose a crop, so they need the cover fit
+ */
+export function validateResizeOptions(params: {
+  fit?: unknown;
+  position?: unknown;
+}): ValidationResult {
+  const { fit, position } = params;
+
+  if (fit !== undefined && !RESIZE_FITS.includes(fit as ResizeFit)) {
+    return {
+      valid: false,
+      error: 'Invalid fit',
+      code: ErrorCode.INVALID_DIMENSIONS,
+      details: { fit, allowed: RESIZE_FITS.join(', ') },
+    };
+  }
+
+  if (position === undefined) {
+    return { valid: true };
+  }
+
+  const errors = checkSchema(position, POSITION_SCHEMA, 'position');
+  if (errors.length > 0) {
+    return {
+      valid: false,
+      error: 'Invalid position',
+      code: ErrorCode.INVALID_POSITION,
+      details: {
+        position,
+        allowed: 'a gravity (e.g. north), entropy, attention or {"x": 0-1, "y": 0-1}',
+      },
+    };
+  }
+
+  if (CROP_STRATEGIES.includes(position as CropStrategy) && fit !== 'cover') {
+    return {
+      valid: false,
+      error: `The ${position} position requires fit=cover`,
+      code: ErrorCode.INVALID_POSITION,
+      details: { position, fit },
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validate the crop region, extend padding and background colour
+ * The crop is checked against the image size separately (validateCropBounds)
+ */
+export function validateCanvasOptions(
+  params: {
+    crop?: unknown;
+    extend?: unknown;
+    background?: unknown;
+  },
+  maxDimension: number = MAX_DIMENSION,
+): ValidationResult {
+  const { crop, extend, background } = params;
+
+  if (crop !== undefined) {
+    const errors = checkSchema(crop, createCropRegionSchema(maxDimension), 'crop');
+    if (errors.length > 0) {
+      return {
+        valid: false,
+        error: 'Invalid crop region',
+        code: ErrorCode.INVALID_DIMENSIONS,
+        details: { errors },
+      };
+    }
+  }
+
+  if (extend !== undefined) {
+    const errors = checkSchema(extend, createExtendPaddingSchema(maxDimension), 'extend');
+    if (errors.length > 0) {
+      return {
+        valid: false,
+        error: 'Invalid extend padding',
+        code: ErrorCode.INVALID_DIMENSIONS,
+        details: { errors },
+      };
+    }
+  }
+
+  if (background !== undefined && checkSchema(background, COLOR_SCHEMA, 'background').length > 0) {
+    return {
+      valid: false,
+      error: 'Invalid background colour',
+      code: ErrorCode.INVALID_COLOR,
+      details: { background, format: '#rgb, #rgba, #rrggbb or #rrggbbaa' },
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validate watermark options
+ * Exactly one of text and image must be given
+ */
+export function validateWatermark(watermark: unknown): ValidationResult {
+  const errors = checkSchema(watermark, WATERMARK_SCHEMA, 'watermark');
+  if (errors.length > 0) {
+    return {
+      valid: false,
+      error: 'Invalid watermark',
+      code: ErrorCode.INVALID_WATERMARK,
+      details: { errors },
+    };
+  }
+
+  const { text, image } = watermark as { text?: string; image?: string };
+  if ((text === undefined) === (image === undefined)) {
+    return {
+      valid: false,
+      error: 'A watermark needs exactly one of text and image',
+      code: ErrorCode.INVALID_WATERMARK,
+      details: { hint: 'Set exactly one of watermark.text and watermark.image' },
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Check whether a conversion loses transparency
+ * Always valid; warns when transparent areas will be flattened onto `background`
+ */
+export function validateTransparency(
+  outputFormat: ImageFormat,
+  hasAlpha: boolean,
+  background: string = DEFAULT_FLATTEN_BACKGROUND,
+): ValidationResult {
+  if (!hasAlpha || supportsTransparency(outputFormat)) {
+    return { valid: true };
+  }
+
+  return {
+    valid: true,
+    details: {
+      warning: `${outputFormat} does not support transparency; transparent areas are flattened onto ${background}`,
+      background,
+    },
+  };
+}
+
+/**
+ * Validate a crop region against the source image size
+ */
+export function validateCropBounds(
+  crop: CropRegion,
+  width: number,
+  height: number,
+): ValidationResult {
+  if (!isCropWithinBounds(crop, width, height)) {
+    return {
+      valid: false,
+      error: 'Crop region exceeds image bounds',
+      code: ErrorCode.INVALID_DIMENSIONS,
+      details: { crop, imageWidth: width, imageHeight: height },
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validate that padding keeps a `width` x `height` image within `maxDimension`
+ * a side (images already past it may not grow further)
+ */
+export function validateExtendBounds(
+  extend: ExtendPadding,
+  width: number,
+  height: number,
+  maxDimension: number = MAX_DIMENSION,
+): ValidationResult {
+  const extendedWidth = width + (extend.left || 0) + (extend.right || 0);
+  const extendedHeight = height + (extend.top || 0) + (extend.bottom || 0);
+
+  if (
+    extendedWidth > Math.max(maxDimension, width) ||
+    extendedHeight > Math.max(maxDimension, height)
+  ) {
+    return {
+      valid: false,
+      error: 'Extended image exceeds the dimension limit',
+      code: ErrorCode.DIMENSION_LIMIT_EXCEEDED,
+      details: { extend, width: extendedWidth, height: extendedHeight, maxDimension },
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validate the metadata option (a mode or an object of fields)
+ */
+export function validateMetadataOption(metadata: unknown): ValidationResult {
+  const invalid = (error: string, details: Record<string, any>) => ({
+    valid: false,
+    error,
+    code: ErrorCode.INVALID_METADATA,
+    details,
+  });
+
+  if (typeof metadata === 'string') {
+    return METADATA_MODES.includes(metadata as MetadataMode)
+      ? { valid: true }
+      : invalid('Invalid metadata mode', {
+          metadata,
+          allowed: METADATA_MODES.join(', '),
+        });
+  }
+
+  if (typeof metadata !== 'object' || metadata === null || Array.isArray(metadata)) {
+    return invalid('Metadata must be a mode or an object of fields', { metadata });
+  }
+
+  const allowedKeys = ['mode', 'copyright', 'author', 'description'];
+
+  for (const [key, value] of Object.entries(metadata)) {
+    if (!allowedKeys.includes(key)) {
+      return invalid(`Unknown metadata field "${key}"`, {
+        field: key,
+        allowed: allowedKeys.join(', '),
+      });
+    }
+
+    if (key === 'mode') {
+      if (!METADATA_MODES.includes(value as MetadataMode)) {
+        return invalid('Invalid metadata mode', {
+          mode: value,
+          allowed: METADATA_MODES.join(', '),
+        });
+      }
+      continue;
+    }
+
+    if (typeof value !== 'string' || value.length > MAX_METADATA_FIELD_LENGTH) {
+      return invalid(`Invalid metadata field "${key}"`, {
+        field: key,
+        maxLength: MAX_METADATA_FIELD_LENGTH,
+      });
+    }
+
+    // EXIF text tags are ASCII
+    if (!/^[\x20-\x7e]*$/.test(value)) {
+      return invalid(`Metadata field "${key}" must be printable ASCII`, {
+        field: key,
+      });
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validate animation options against the output format
+ */
+export function validateAnimationOptions(
+  params: AnimationOptions & {
+    outputFormat: ImageFormat;
+    recipe?: unknown;
+  } & ImageTransforms,
+): ValidationResult {
+  const { outputFormat, animated, loop, delay, extractFrames } = params;
+
+  const invalid = (error: string, details: Record<string, any>) => ({
+    valid: false,
+    error,
+    code: ErrorCode.INVALID_ANIMATION_OPTIONS,
+    details,
+  });
+
+  const unsupported = (error: string, details: Record<string, any>) => ({
+    valid: false,
+    error,
+    code: ErrorCode.UNSUPPORTED_OPERATION,
+    details,
+  });
+
+  if (animated && !supportsAnimation(outputFormat)) {
+    return unsupported(`Animated ${outputFormat.toUpperCase()} output is not supported`, {
+      outputFormat,
+      animatedFormats: ANIMATED_FORMATS.join(', '),
+    });
+  }
+
+  if (animated && extractFrames) {
+    return invalid('Animated output and frame extraction cannot be combined', {
+      animated,
+      extractFrames,
+    });
+  }
+
+  if ((loop !== undefined || delay !== undefined) && !supportsAnimation(outputFormat)) {
+    return invalid('Loop and delay only apply to animated output', {
+      outputFormat,
+      animatedFormats: ANIMATED_FORMATS.join(', '),
+    });
+  }
+
+  if (
+    loop !== undefined &&
+    (!Number.isInteger(loop) || loop < 0 || loop > MAX_ANIMATION_LOOP)
+  ) {
+    return invalid('Invalid loop count', {
+      loop,
+      validRange: `0-${MAX_ANIMATION_LOOP} (0 = forever)`,
+    });
+  }
+
+  if (delay !== undefined) {
+    const delays = Array.isArray(delay) ? delay : [delay];
+    const isValidDelay = (value: unknown) =>
+      Number.isInteger(value) && (value as number) >= 0 && (value as number) <= MAX_FRAME_DELAY;
+
+    if (delays.length === 0 || !delays.every(isValidDelay)) {
+      return invalid('Invalid frame delay', {
+        delay,
+        validRange: `0-${MAX_FRAME_DELAY} ms, or an array with one value per frame`,
+      });
+    }
+  }
+
+  const usesAnimation = animated || extractFrames || loop !== undefined || delay !== undefined;
+
+  // Recipes work on decoded pixels of the first frame
+  if (params.recipe !== undefined && usesAnimation) {
+    return unsupported('Animation options cannot be combined with a recipe', {});
+  }
+
+  // Sharp rotates and flips the stacked frames as one image, which reorders them
+  if (animated && (params.rotate || params.flip)) {
+    return unsupported('Rotate and flip are not supported for animated output', {
+      rotate: params.rotate,
+      flip: params.flip,
+    });
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validate quality 'auto' and its SSIM threshold
+ */
+export function validateAutoQuality(
+  params: Pick<ConversionOptions, 'quality' | 'minSsim' | 'targetSize' | 'extractFrames'> & {
+    recipe?: unknown;
+  },
+): ValidationResult {
+  const { quality, minSsim } = params;
+
+  const invalid = (error: string, details: Record<string, any>) => ({
+    valid: false,
+    error,
+    code: ErrorCode.INVALID_QUALITY,
+    details,
+  });
+
+  if (minSsim !== undefined) {
+    if (quality !== 'auto') {
+      return invalid("minSsim only applies to quality 'auto'", { quality, minSsim });
+    }
+
+    if (
+      !Number.isFinite(minSsim) ||
+      minSsim < MIN_SSIM_THRESHOLD ||
+      minSsim > MAX_SSIM_THRESHOLD
+    ) {
+      return invalid('Invalid SSIM threshold', {
+        minSsim,
+        validRange: `${MIN_SSIM_THRESHOLD}-${MAX_SSIM_THRESHOLD}`,
+      });
+    }
+  }
+
+  // Each of these picks the quality itself, or has no single output to measure
+  if (params.targetSize !== undefined || params.recipe !== undefined || params.extractFrames) {
+    return invalid(
+      "Quality 'auto' cannot be combined with a target size, recipe or frame extraction",
+      { quality },
+    );
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validate a target file size (bytes)
+ */
+export function validateTargetSize(
+  params: Pick<ConversionOptions, 'targetSize' | 'extractFrames'> & { recipe?: unknown },
+  maxFileSize: number = MAX_FILE_SIZE,
+): ValidationResult {
+  const { targetSize } = params;
+
+  if (
+    targetSize === undefined ||
+    !Number.isInteger(targetSize) ||
+    targetSize < MIN_TARGET_SIZE ||
+    targetSize > maxFileSize
+  ) {
+    return {
+      valid: false,
+      error: 'Invalid target size',
+      code: ErrorCode.INVALID_TARGET_SIZE,
+      details: {
+        targetSize,
+        validRange: `${MIN_TARGET_SIZE}-${maxFileSize} bytes`,
+      },
+    };
+  }
+
+  // Recipes choose their own quality; frames are converted one by one
+  if (params.recipe !== undefined || params.extractFrames) {
+    return {
+      valid: false,
+      error: 'Target size cannot be combined with a recipe or frame extraction',
+      code: ErrorCode.UNSUPPORTED_OPERATION,
+      details: { targetSize },
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validate responsive image set options
+ */
+export function validateResponsiveOptions(
+  inputFormat: FileFormat,
+  options: ResponsiveOptions,
+  maxDimension: number = MAX_DIMENSION,
+): ValidationResult {
+  const { widths, formats, quality } = options;
+
+  if (widths.length === 0 || widths.length > MAX_RESPONSIVE_WIDTHS) {
+    return {
+      valid: false,
+      error: 'Invalid number of widths',
+      code: ErrorCode.INVALID_DIMENSIONS,
+      details: { count: widths.length, min: 1, max: MAX_RESPONSIVE_WIDTHS },
+    };
+  }
+
+  const invalidWidth = widths.find(
+    (width) => !Number.isInteger(width) || width < MIN_DIMENSION || width > maxDimension,
+  );
+  if (invalidWidth !== undefined) {
+    return {
+      valid: false,
+      error: 'Invalid width',
+      code: ErrorCode.INVALID_DIMENSIONS,
+      details: { width: invalidWidth, min: MIN_DIMENSION, max: maxDimension },
+    };
+  }
+
+  if (formats.length === 0) {
+    return {
+      valid: false,
+      error: 'No output formats',
+      code: ErrorCode.MISSING_PARAMETER,
+      details: { allowed: RESPONSIVE_FORMATS },
+    };
+  }
+
+  for (const format of formats) {
+    // Only formats browsers can display belong in a <picture> element
+    if (!RESPONSIVE_FORMATS.includes(format)) {
+      return {
+        valid: false,
+        error: 'Unsupported responsive format',
+        code: ErrorCode.UNSUPPORTED_FORMAT,
+        details: { format, allowed: RESPONSIVE_FORMATS },
+      };
+    }
+
+    const validation = validateConversionParameters({
+      inputFormat,
+      outputFormat: format,
+      quality,
+    });
+    if (!validation.valid) {
+      return validation;
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validate image-to-PDF page options
+ */
+export function validatePdfOptions(options: PdfOptions): ValidationResult {
+  const { pageSize, orientation, fit, margin } = options;
+
+  const invalid = (field: string, value: unknown, allowed: string) => ({
+    valid: false,
+    error: `Invalid ${field}`,
+    code: ErrorCode.INVALID_PAGE_OPTIONS,
+    details: {
+      [field]: value,
+      allowed,
+    },
+  });
+
+  if (pageSize !== undefined && !['a3', 'a4', 'a5', 'letter', 'legal', 'fit'].includes(pageSize)) {
+    return invalid('pageSize', pageSize, 'a3, a4, a5, letter, legal, fit');
+  }
+
+  if (orientation !== undefined && !['portrait', 'landscape', 'auto'].includes(orientation)) {
+    return invalid('orientation', orientation, 'portrait, landscape, auto');
+  }
+
+  if (fit !== undefined && !['contain', 'cover', 'fill', 'none'].includes(fit)) {
+    return invalid('fit', fit, 'contain, cover, fill, none');
+  }
+
+  if (
+    margin !== undefined &&
+    (!Number.isFinite(margin) || margin < 0 || margin > MAX_PDF_MARGIN)
+  ) {
+    return invalid('margin', margin, `0-${MAX_PDF_MARGIN} points`);
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validate text-to-PDF options
+ */
+export function validateTextPdfOptions(options: TextPdfOptions): ValidationResult {
+  const { pageSize, font, fontSize, lineHeight } = options;
+
+  const invalid = (field: string, value: unknown, allowed: string) => ({
+    valid: false,
+    error: `Invalid ${field}`,
+    code: ErrorCode.INVALID_PAGE_OPTIONS,
+    details: {
+      [field]: value,
+      allowed,
+    },
+  });
+
+  // Text flows across pages, so there is no natural page size to fit
+  if (pageSize === 'fit') {
+    return invalid('pageSize', pageSize, 'a3, a4, a5, letter, legal');
+  }
+
+  const pageValidation = validatePdfOptions(options);
+  if (!pageValidation.valid) {
+    return pageValidation;
+  }
+
+  if (font !== undefined && !['helvetica', 'times', 'courier'].includes(font)) {
+    return invalid('font', font, 'helvetica, times, courier');
+  }
+
+  if (
+    fontSize !== undefined &&
+    (!Number.isFinite(fontSize) || fontSize < MIN_PDF_FONT_SIZE || fontSize > MAX_PDF_FONT_SIZE)
+  ) {
+    return invalid('fontSize', fontSize, `${MIN_PDF_FONT_SIZE}-${MAX_PDF_FONT_SIZE} points`);
+  }
+
+  if (
+    lineHeight !== undefined &&
+    (!Number.isFinite(lineHeight) ||
+      lineHeight < MIN_PDF_LINE_HEIGHT ||
+      lineHeight > MAX_PDF_LINE_HEIGHT)
+  ) {
+    return invalid('lineHeight', lineHeight, `${MIN_PDF_LINE_HEIGHT}-${MAX_PDF_LINE_HEIGHT}`);
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validate PDF page rendering options
  */
-export function validateQualityParameter(
-  quality: number | undefined,
-  format: ImageFormat,
-): ValidationResult {
-  if (quality === undefined) {
-    return { valid: true };
-  }
+export function validatePdfRenderOptions(options: PdfRenderOptions): ValidationResult {
+  const { pages, dpi } = options;
 
-  if (!validateQuality(quality)) {
+  if (
+    dpi !== undefined &&
+    (!Number.isFinite(dpi) || dpi < MIN_PDF_RENDER_DPI || dpi > MAX_PDF_RENDER_DPI)
+  ) {
     return {
       valid: false,
-      error: 'Invalid quality value',
-      code: ErrorCode.INVALID_QUALITY,
+      error: 'Invalid dpi',
+      code: ErrorCode.INVALID_PAGE_OPTIONS,
       details: {
-        quality,
-        validRange: '1-100',
+        dpi,
+        allowed: `${MIN_PDF_RENDER_DPI}-${MAX_PDF_RENDER_DPI}`,
       },
     };
   }
 
-  // Warn if quality is specified for lossless format (but don't fail)
-  if (!supportsQuality(format)) {
+  if (pages && pages.length > MAX_PDF_RENDER_PAGES) {
     return {
-      valid: true,
+      valid: false,
+      error: `At most ${MAX_PDF_RENDER_PAGES} pages can be rendered per request`,
+      code: ErrorCode.INVALID_PAGE_OPTIONS,
       details: {
-        warning: `Quality parameter ignored for ${format} format`,
+        pageCount: pages.length,
+        maxPages: MAX_PDF_RENDER_PAGES,
       },
     };
   }
@@ -185,6 +1025,7 @@ export function validateQualityParameter(
  */
 export async function validateFileWithMagicBytes(
   file: File | Buffer,
+  allowedTypes: string[] = ALLOWED_MIME_TYPES,
 ): Promise<ValidationResult> {
   try {
     let buffer: ArrayBuffer;
@@ -195,8 +1036,8 @@ export async function validateFileWithMagicBytes(
         file.byteOffset + file.byteLength,
       );
     } else {
-      // Read first 12 bytes for magic byte detection
-      const blob = file.slice(0, 12);
+      // Read the header for magic byte detection (ISO-BMFF brands follow the first 12 bytes)
+      const blob = file.slice(0, 64);
       buffer = await blob.arrayBuffer();
     }
 
@@ -210,7 +1051,7 @@ export async function validateFileWithMagicBytes(
       };
     }
 
-    if (!ALLOWED_MIME_TYPES.includes(detectedMime)) {
+    if (!allowedTypes.includes(detectedMime)) {
       return {
         valid: false,
         error: 'Unsupported file type detected',
@@ -311,7 +1152,7 @@ export async function validateFile(
 
   // Validate using magic bytes (optional but recommended)
   if (checkMagicBytes) {
-    const magicBytesValidation = await validateFileWithMagicBytes(file);
+    const magicBytesValidation = await validateFileWithMagicBytes(file, allowedTypes);
     if (!magicBytesValidation.valid) {
       return magicBytesValidation;
     }
@@ -328,10 +1169,17 @@ export async function validateBuffer(
   mimeType: string,
   options?: {
     maxSize?: number;
+    allowedTypes?: string[];
+    checkMimeType?: boolean;
     checkMagicBytes?: boolean;
   },
 ): Promise<ValidationResult> {
-  const { maxSize = MAX_FILE_SIZE, checkMagicBytes = true } = options || {};
+  const {
+    maxSize = MAX_FILE_SIZE,
+    allowedTypes = ALLOWED_MIME_TYPES,
+    checkMimeType = true,
+    checkMagicBytes = true,
+  } = options || {};
 
   // Validate size
   const sizeValidation = validateFileSize(buffer.length, maxSize);
@@ -340,14 +1188,16 @@ export async function validateBuffer(
   }
 
   // Validate MIME type
-  const typeValidation = validateFileType(mimeType);
-  if (!typeValidation.valid) {
-    return typeValidation;
+  if (checkMimeType) {
+    const typeValidation = validateFileType(mimeType, allowedTypes);
+    if (!typeValidation.valid) {
+      return typeValidation;
+    }
   }
 
   // Validate using magic bytes
   if (checkMagicBytes) {
-    const magicBytesValidation = await validateFileWithMagicBytes(buffer);
+    const magicBytesValidation = await validateFileWithMagicBytes(buffer, allowedTypes);
     if (!magicBytesValidation.valid) {
       return magicBytesValidation;
     }
@@ -356,6 +1206,152 @@ export async function validateBuffer(
   return { valid: true };
 }
 
+/**
+ * Cross-check the format sniffed from the content against the declared MIME type and extension
+ * Content wins: a mismatch is a warning (the file is converted as `detectedFormat`),
+ * or a FORMAT_MISMATCH error when `strict`. Missing or generic declarations are ignored
+ */
+export function validateDeclaredFormat(
+  detectedFormat: ImageFormat,
+  declared: {
+    mimeType: string;
+    filename: string;
+  },
+  strict: boolean = false,
+): ValidationResult {
+  const detected = normalizeFormat(detectedFormat);
+  const mimeType = declared.mimeType.toLowerCase();
+  const mimeFormat = getFormatFromMime(mimeType);
+  const extension = declared.filename.includes('.')
+    ? declared.filename.split('.').pop()!.toLowerCase()
+    : '';
+  const extensionFormat = getFormatFromExtension(declared.filename);
+
+  const mismatches: string[] = [];
+
+  if (mimeType && !GENERIC_MIME_TYPES.includes(mimeType) && mimeFormat !== detected) {
+    mismatches.push(`type ${mimeType}`);
+  }
+
+  // Unknown extensions (e.g. .jfif) say nothing about the format
+  if (extensionFormat && normalizeFormat(extensionFormat) !== detected) {
+    mismatches.push(`extension .${extension}`);
+  }
+
+  if (mismatches.length === 0) {
+    return { valid: true };
+  }
+
+  const message = `File content is ${detected}, which does not match its ${mismatches.join(' and ')}`;
+  const details = {
+    detectedFormat: detected,
+    declaredMimeType: declared.mimeType || undefined,
+    declaredExtension: extension || undefined,
+  };
+
+  if (strict) {
+    return {
+      valid: false,
+      error: message,
+      code: ErrorCode.FORMAT_MISMATCH,
+      details,
+    };
+  }
+
+  return {
+    valid: true,
+    details: {
+      ...details,
+      warning: `${message}; converted as ${detected}`,
+    },
+  };
+}
+
+/**
+ * Validate document MIME type
+ */
+export function validateDocumentType(mimeType: string): ValidationResult {
+  return validateFileType(mimeType, ALLOWED_DOCUMENT_MIME_TYPES);
+}
+
+/**
+ * Validate document content against its format
+ * DOCX must be a ZIP containing word/document.xml, PDF must start with %PDF
+ * and text formats must be UTF-8
+ */
+export function validateDocumentContent(
+  bytes: Uint8Array,
+  format: DocumentFormat,
+  options?: {
+    maxSize?: number;
+  },
+): ValidationResult {
+  const { maxSize = MAX_FILE_SIZE } = options || {};
+
+  // Validate size
+  const sizeValidation = validateFileSize(bytes.length, maxSize);
+  if (!sizeValidation.valid) {
+    return sizeValidation;
+  }
+
+  switch (format) {
+    case 'docx': {
+      const detectedMime = detectMimeTypeFromBuffer(bytes);
+      if (detectedMime !== getMimeType('docx')) {
+        return {
+          valid: false,
+          error: 'File content is not a DOCX document',
+          code: ErrorCode.INVALID_FILE_TYPE,
+          details: {
+            detectedType: detectedMime,
+          },
+        };
+      }
+      return { valid: true };
+    }
+
+    case 'pdf': {
+      const detectedMime = detectMimeTypeFromBuffer(bytes);
+      if (detectedMime !== getMimeType('pdf')) {
+        return {
+          valid: false,
+          error: 'File content is not a PDF document',
+          code: ErrorCode.INVALID_FILE_TYPE,
+          details: {
+            detectedType: detectedMime,
+          },
+        };
+      }
+      return { valid: true };
+    }
+
+    case 'html':
+    case 'md':
+    case 'txt':
+      if (!isLikelyText(bytes)) {
+        return {
+          valid: false,
+          error: 'File content is not UTF-8 text',
+          code: ErrorCode.INVALID_FILE_TYPE,
+          details: {
+            format,
+          },
+        };
+      }
+      return { valid: true };
+
+    default:
+      return {
+        valid: false,
+        error: 'Unsupported document format',
+        code: ErrorCode.UNSUPPORTED_FORMAT,
+        details: {
+          format,
+        },
+      };
+  }
+}
+
 /**
  * Check if file is potentially malicious
  */
@@ -393,20 +1389,384 @@ export function isPotentiallyMalicious(filename: string): boolean {
   return false;
 }
 
+/**
+ * SVG elements removed with their content: scripts, and elements that
+ * embed HTML or other documents (matched on their lowercase local name)
+ */
+const UNSAFE_SVG_ELEMENTS = ['script', 'foreignObject', 'iframe', 'embed', 'object', 'audio', 'video'];
+
+/**
+ * Animation elements, which can rewrite a link into a javascript: URL
+ */
+const SVG_ANIMATION_ELEMENTS = ['animate', 'animatemotion', 'animatetransform', 'set'];
+
+/**
+ * Data URLs SVG images may keep (raster only; nested SVG could carry scripts)
+ */
+const SAFE_SVG_DATA_URL = /^data:image\/(png|jpe?g|gif|webp);/i;
+
+/**
+ * Entities XML defines without a doctype
+ */
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * Sanitized SVG and the kinds of content that were removed
+ */
+export interface SanitizedSvg {
+  svg: string;
+  removed: string[];
+}
+
+/**
+ * Strip active and external content from an SVG before rendering
+ * The markup is read tag by tag: the doctype (entity declarations), processing
+ * instructions and comments are dropped, scripts and embedded documents are
+ * removed with their content, and attributes are checked by local name after
+ * decoding entities, so event handlers and references that are not
+ * same-document fragments or raster data URLs are removed however they are written
+ */
+export function sanitizeSvg(svg: string): SanitizedSvg {
+  const removed = new Set<string>();
+  const output: string[] = [];
+  // Elements opened inside a removed element, whose content is dropped too
+  let skipDepth = 0;
+  let inStyle = false;
+  let position = 0;
+
+  const skip = (kind: string, selfClosing: boolean) => {
+    removed.add(kind);
+    skipDepth = selfClosing ? 0 : 1;
+  };
+
+  while (position < svg.length) {
+    const start = svg.indexOf('<', position);
+    const text = svg.slice(position, start < 0 ? svg.length : start);
+    if (text && skipDepth === 0) {
+      output.push(sanitizeSvgText(text, inStyle, removed));
+    }
+    if (start < 0) {
+      break;
+    }
+
+    if (svg.startsWith('<!--', start)) {
+      position = findSvgEnd(svg, '-->', start);
+      continue;
+    }
+
+    if (svg.startsWith('<![CDATA[', start)) {
+      position = findSvgEnd(svg, ']]>', start);
+      if (skipDepth === 0) {
+        const content = svg.slice(start + '<![CDATA['.length, position - ']]>'.length);
+        output.push(
+          inStyle ? `<![CDATA[${sanitizeCss(content, removed)}]]>` : svg.slice(start, position),
+        );
+      }
+      continue;
+    }
+
+    // Doctype and entity declarations; entities can expand exponentially or pull in files
+    if (svg.startsWith('<!', start)) {
+      position = findTagEnd(svg, start, true);
+      removed.add('doctype');
+      continue;
+    }
+
+    // e.g. <?xml-stylesheet href="..."?> (the XML declaration itself is kept)
+    if (svg.startsWith('<?', start)) {
+      position = findSvgEnd(svg, '?>', start);
+      const instruction = svg.slice(start, position);
+      if (/^<\?xml\s/.test(instruction)) {
+        output.push(instruction);
+      } else {
+        removed.add('processing instructions');
+      }
+      continue;
+    }
+
+    position = findTagEnd(svg, start, false);
+    const tag = svg.slice(start, position);
+    const name = /^<\/?([^\s/>]+)/.exec(tag)?.[1];
+
+    // A stray "<" is escaped rather than read as a tag
+    if (!name) {
+      position = start + 1;
+      if (skipDepth === 0) {
+        output.push('&lt;');
+      }
+      continue;
+    }
+
+    const localName = getLocalName(name);
+    const selfClosing = /\/\s*>$/.test(tag);
+
+    if (tag.startsWith('</')) {
+      if (skipDepth > 0) {
+        skipDepth--;
+      } else {
+        output.push(tag);
+        inStyle = inStyle && localName !== 'style';
+      }
+      continue;
+    }
+
+    if (skipDepth > 0) {
+      skipDepth += selfClosing ? 0 : 1;
+      continue;
+    }
+
+    const unsafe = UNSAFE_SVG_ELEMENTS.find((element) => element.toLowerCase() === localName);
+    if (unsafe) {
+      skip(unsafe, selfClosing);
+      continue;
+    }
+
+    const attributes = parseSvgAttributes(
+      tag.slice(name.length + 1, tag.length - (selfClosing ? 2 : 1)),
+    );
+
+    const animatesLink = attributes.some(
+      ({ name: attribute, value }) =>
+        getLocalName(attribute) === 'attributename' && getLocalName(value.trim()) === 'href',
+    );
+    if (SVG_ANIMATION_ELEMENTS.includes(localName) && animatesLink) {
+      skip('link animations', selfClosing);
+      continue;
+    }
+
+    const kept = attributes.flatMap(({ name: attribute, value, raw }) => {
+      const sanitized = sanitizeSvgAttribute(attribute, value, removed);
+      if (sanitized === null) {
+        return [];
+      }
+      return [
+        sanitized === value
+          ? stripUnknownEntities(raw, removed)
+          : `${attribute}="${escapeSvgText(sanitized)}"`,
+      ];
+    });
+
+    const attributeText = kept.map((attribute) => ` ${attribute}`).join('');
+    output.push(`<${name}${attributeText}${selfClosing ? '/>' : '>'}`);
+    inStyle = localName === 'style' && !selfClosing;
+  }
+
+  return { svg: output.join(''), removed: [...removed] };
+}
+
+/**
+ * Get the lowercase local part of a (possibly prefixed) XML name
+ */
+function getLocalName(name: string): string {
+  return name.slice(name.lastIndexOf(':') + 1).toLowerCase();
+}
+
+/**
+ * Get the position after `terminator`, or the end of the markup if it is missing
+ */
+function findSvgEnd(svg: string, terminator: string, from: number): number {
+  const index = svg.indexOf(terminator, from + 2);
+  return index < 0 ? svg.length : index + terminator.length;
+}
+
+/**
+ * Get the position after the ">" closing a tag or declaration
+ * Quoted values, and a doctype's bracketed internal subset, may contain ">"
+ */
+function findTagEnd(svg: string, from: number, declaration: boolean): number {
+  let quote = '';
+  let depth = 0;
+
+  for (let index = from + 1; index < svg.length; index++) {
+    const char = svg[index];
+
+    if (quote) {
+      quote = char === quote ? '' : quote;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (declaration && char === '[') {
+      depth++;
+    } else if (declaration && char === ']') {
+      depth--;
+    } else if (char === '>' && depth <= 0) {
+      return index + 1;
+    }
+  }
+
+  return svg.length;
+}
+
+/**
+ * Split the attributes of a start tag, with their values entity-decoded
+ */
+function parseSvgAttributes(source: string): { name: string; value: string; raw: string }[] {
+  const attributes: { name: string; value: string; raw: string }[] = [];
+  const pattern = /([^\s=/>]+)(?:\s*=\s*("[^"]*"|'[^']*'|[^\s>]*))?/g;
+
+  for (const [raw, name, quoted = ''] of source.matchAll(pattern)) {
+    const value = /^["']/.test(quoted) ? quoted.slice(1, -1) : quoted;
+    attributes.push({ name, value: decodeXmlEntities(value), raw });
+  }
+
+  return attributes;
+}
+
+/**
+ * Check a decoded attribute value
+ * Returns the value to keep (rewritten if its CSS had unsafe references), or null to drop it
+ */
+function sanitizeSvgAttribute(name: string, value: string, removed: Set<string>): string | null {
+  const localName = getLocalName(name);
+
+  if (localName.startsWith('on')) {
+    removed.add('event handlers');
+    return null;
+  }
+
+  if ((localName === 'href' || localName === 'src') && !isSafeSvgReference(value)) {
+    removed.add('external references');
+    return null;
+  }
+
+  return sanitizeCss(value, removed);
+}
+
+/**
+ * Check text content; inside <style> it is CSS
+ */
+function sanitizeSvgText(text: string, inStyle: boolean, removed: Set<string>): string {
+  if (!inStyle) {
+    return stripUnknownEntities(text, removed);
+  }
+
+  const css = decodeXmlEntities(text);
+  const sanitized = sanitizeCss(css, removed);
+  return sanitized === css ? stripUnknownEntities(text, removed) : escapeSvgText(sanitized);
+}
+
+/**
+ * Remove @import rules and url() references that are not fragments or raster data URLs
+ * CSS escapes could spell either, so CSS containing a backslash is dropped entirely
+ */
+function sanitizeCss(css: string, removed: Set<string>): string {
+  if (css.includes('\\')) {
+    removed.add('external references');
+    return '';
+  }
+
+  return css
+    .replace(/@import[^;]*;?/gi, () => {
+      removed.add('external references');
+      return '';
+    })
+    .replace(/url\(\s*(["']?)([^)]*?)\1\s*\)/gi, (reference, _quote, value: string) => {
+      if (isSafeSvgReference(value)) {
+        return reference;
+      }
+      removed.add('external references');
+      return 'none';
+    });
+}
+
+/**
+ * Check a reference is a same-document fragment or a raster data URL
+ * Whitespace and control characters are ignored, as URL parsers do
+ */
+function isSafeSvgReference(value: string): boolean {
+  const reference = value.replace(/[\s\u0000-\u001f]+/g, '');
+  return reference.startsWith('#') || SAFE_SVG_DATA_URL.test(reference);
+}
+
+/**
+ * Decode XML's own and numeric character references (others are dropped)
+ */
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[\w.-]+);/gi, (_reference, entity: string) => {
+    if (!entity.startsWith('#')) {
+      return XML_ENTITIES[entity] ?? '';
+    }
+
+    const codePoint =
+      entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+    return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : '';
+  });
+}
+
+/**
+ * Remove references to entities the removed doctype declared, which would no longer parse
+ */
+function stripUnknownEntities(text: string, removed: Set<string>): string {
+  return text.replace(/&(?!(?:amp|lt|gt|quot|apos|#\d+|#x[0-9a-f]+);)[\w.-]+;/gi, () => {
+    removed.add('doctype');
+    return '';
+  });
+}
+
+/**
+ * Escape text for XML content or a double-quoted attribute
+ */
+function escapeSvgText(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Flat options a recipe replaces; sending any of them with a recipe is an error
+ */
+const RECIPE_EXCLUSIVE_OPTIONS = [
+  'width',
+  'height',
+  'position',
+  'crop',
+  'extend',
+  'density',
+  'rotate',
+  'flip',
+  'flop',
+  'grayscale',
+  'blur',
+  'sharpen',
+] as const;
+
 /**
  * Validate all conversion parameters
  */
-export function validateConversionParameters(params: {
-  inputFormat: ImageFormat;
-  outputFormat: ImageFormat;
-  quality?: number;
-  width?: number;
-  height?: number;
-}): ValidationResult {
+export function validateConversionParameters(
+  params: {
+    inputFormat: FileFormat;
+    outputFormat: ImageFormat;
+    quality?: QualityOption;
+    minSsim?: number;
+    width?: number;
+    height?: number;
+    fit?: unknown;
+    position?: unknown;
+    crop?: unknown;
+    extend?: unknown;
+    background?: unknown;
+    density?: number;
+    watermark?: unknown;
+    recipe?: unknown;
+    metadata?: unknown;
+    targetSize?: number;
+  } & AnimationOptions & ImageTransforms,
+  limits: Partial<Pick<ConverterLimits, 'maxDimension' | 'maxFileSize'>> = {},
+): ValidationResult {
   const { inputFormat, outputFormat, quality, width, height } = params;
+  const { maxDimension = MAX_DIMENSION, maxFileSize = MAX_FILE_SIZE } = limits;
 
-  // Validate formats
-  const inputFormatValidation = validateFormat(inputFormat);
+  // Validate formats (PDF input is rendered to images before converting)
+  const inputFormatValidation =
+    inputFormat === 'pdf' ? { valid: true } : validateFormat(inputFormat);
   if (!inputFormatValidation.valid) {
     return inputFormatValidation;
   }
@@ -430,12 +1790,20 @@ export function validateConversionParameters(params: {
     }
   }
 
+  // Validate automatic quality options if provided
+  if (quality === 'auto' || params.minSsim !== undefined) {
+    const autoQualityValidation = validateAutoQuality(params);
+    if (!autoQualityValidation.valid) {
+      return autoQualityValidation;
+    }
+  }
+
   // Validate dimensions if provided
   if (width !== undefined || height !== undefined) {
-    const w = width || MAX_DIMENSION;
-    const h = height || MAX_DIMENSION;
+    const w = width || maxDimension;
+    const h = height || maxDimension;
 
-    if (width !== undefined && (width < MIN_DIMENSION || width > MAX_DIMENSION)) {
+    if (width !== undefined && (width < MIN_DIMENSION || width > maxDimension)) {
       return {
         valid: false,
         error: 'Invalid width',
@@ -443,12 +1811,12 @@ export function validateConversionParameters(params: {
         details: {
           width,
           min: MIN_DIMENSION,
-          max: MAX_DIMENSION,
+          max: maxDimension,
         },
       };
     }
 
-    if (height !== undefined && (height < MIN_DIMENSION || height > MAX_DIMENSION)) {
+    if (height !== undefined && (height < MIN_DIMENSION || height > maxDimension)) {
       return {
         valid: false,
         error: 'Invalid height',
@@ -456,11 +1824,119 @@ export function validateConversionParameters(params: {
         details: {
           height,
           min: MIN_DIMENSION,
-          max: MAX_DIMENSION,
+          max: maxDimension,
+        },
+      };
+    }
+  }
+
+  // Validate SVG rasterization density if provided
+  if (params.density !== undefined) {
+    if (inputFormat !== 'svg') {
+      return {
+        valid: false,
+        error: 'Density only applies to SVG input',
+        code: ErrorCode.INVALID_DIMENSIONS,
+        details: { inputFormat },
+      };
+    }
+
+    if (params.density < MIN_SVG_DENSITY || params.density > MAX_SVG_DENSITY) {
+      return {
+        valid: false,
+        error: 'Invalid density',
+        code: ErrorCode.INVALID_DIMENSIONS,
+        details: {
+          density: params.density,
+          min: MIN_SVG_DENSITY,
+          max: MAX_SVG_DENSITY,
         },
       };
     }
   }
 
+  // Validate fit and position
+  const resizeValidation = validateResizeOptions(params);
+  if (!resizeValidation.valid) {
+    return resizeValidation;
+  }
+
+  // Validate crop, padding and background
+  const canvasValidation = validateCanvasOptions(params, maxDimension);
+  if (!canvasValidation.valid) {
+    return canvasValidation;
+  }
+
+  // Validate watermark if provided (recipes use a composite operation instead)
+  if (params.watermark !== undefined) {
+    const watermarkValidation = validateWatermark(params.watermark);
+    if (!watermarkValidation.valid) {
+      return watermarkValidation;
+    }
+
+    if (params.recipe !== undefined) {
+      return {
+        valid: false,
+        error: 'Watermark cannot be combined with a recipe',
+        code: ErrorCode.INVALID_WATERMARK,
+        details: { hint: 'Add a composite operation to the recipe instead' },
+      };
+    }
+  }
+
+  // Validate transforms
+  const transformsValidation = validateTransforms(params);
+  if (!transformsValidation.valid) {
+    return transformsValidation;
+  }
+
+  // Validate recipe if provided
+  // A recipe replaces the flat geometry and transform options, so those are
+  // rejected rather than silently ignored (format, quality, metadata and
+  // background still apply)
+  if (params.recipe !== undefined) {
+    const recipeValidation = validateRecipe(params.recipe, maxDimension);
+    if (!recipeValidation.valid) {
+      return recipeValidation;
+    }
+
+    const conflicting = RECIPE_EXCLUSIVE_OPTIONS.filter(
+      (option) => params[option] !== undefined && params[option] !== false,
+    );
+    if (conflicting.length > 0) {
+      return {
+        valid: false,
+        error: `${conflicting.join(', ')} cannot be combined with a recipe`,
+        code: ErrorCode.INVALID_RECIPE,
+        details: {
+          options: conflicting,
+          hint: 'Add the equivalent operations to the recipe instead',
+        },
+      };
+    }
+  }
+
+  // Validate metadata option if provided
+  if (params.metadata !== undefined) {
+    const metadataValidation = validateMetadataOption(params.metadata);
+    if (!metadataValidation.valid) {
+      return metadataValidation;
+    }
+  }
+
+  // Validate animation options
+  const animationValidation = validateAnimationOptions(params);
+  if (!animationValidation.valid) {
+    return animationValidation;
+  }
+
+  // Validate target size if provided
+  if (params.targetSize !== undefined) {
+    const targetSizeValidation = validateTargetSize(params, maxFileSize);
+    if (!targetSizeValidation.valid) {
+      return targetSizeValidation;
+    }
+  }
+
   return { valid: true };
 }
@@ -0,0 +1,148 @@
+/**
+ * Text and image watermarks
+ * Schema and placement shared by the server (Sharp composite) and client
+ * (Canvas) converters, which render the mark itself
+ */
+
+import type { WatermarkOptions } from './types';
+import {
+  DEFAULT_WATERMARK_COLOR,
+  DEFAULT_WATERMARK_MARGIN,
+  DEFAULT_WATERMARK_OPACITY,
+  DEFAULT_WATERMARK_SCALE,
+  GRAVITIES,
+  MAX_DIMENSION,
+  MAX_WATERMARK_TEXT_LENGTH,
+  MAX_WATERMARK_TILES,
+} from './formats';
+import {
+  COLOR_SCHEMA,
+  FRACTION_SCHEMA,
+  IMAGE_DATA_SCHEMA,
+  getFocalPoint,
+} from './recipe';
+import type { JsonSchema } from './recipe';
+
+/**
+ * Font size text marks are rendered at before scaling to their final width
+ */
+export const WATERMARK_FONT_SIZE = 64;
+
+/**
+ * JSON Schema for the watermark option
+ */
+export const WATERMARK_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    text: { type: 'string', maxLength: MAX_WATERMARK_TEXT_LENGTH, pattern: '\\S' },
+    image: IMAGE_DATA_SCHEMA,
+    position: { enum: GRAVITIES },
+    opacity: FRACTION_SCHEMA,
+    scale: { type: 'number', minimum: 0.01, maximum: 1 },
+    margin: { type: 'integer', minimum: 0, maximum: MAX_DIMENSION },
+    tile: { type: 'boolean' },
+    color: COLOR_SCHEMA,
+  },
+  additionalProperties: false,
+};
+
+/**
+ * Watermark options with defaults applied
+ */
+export type ResolvedWatermark = Required<Omit<WatermarkOptions, 'text' | 'image'>> &
+  Pick<WatermarkOptions, 'text' | 'image'>;
+
+/**
+ * Top-left corner of one copy of the mark
+ */
+export interface WatermarkPlacement {
+  left: number;
+  top: number;
+}
+
+/**
+ * Apply defaults to watermark options
+ */
+export function resolveWatermark(options: WatermarkOptions): ResolvedWatermark {
+  return {
+    ...options,
+    position: options.position || 'southeast',
+    opacity: options.opacity ?? DEFAULT_WATERMARK_OPACITY,
+    scale: options.scale ?? DEFAULT_WATERMARK_SCALE,
+    margin: options.margin ?? DEFAULT_WATERMARK_MARGIN,
+    tile: options.tile ?? false,
+    color: options.color || DEFAULT_WATERMARK_COLOR,
+  };
+}
+
+/**
+ * Get the size to draw a mark with the given aspect ratio (width / height)
+ * The width is `scale` of the image width, shrunk to fit inside the margins
+ */
+export function getWatermarkSize(
+  width: number,
+  height: number,
+  aspectRatio: number,
+  watermark: ResolvedWatermark,
+): { width: number; height: number } {
+  // Margins larger than the image are ignored rather than hiding the mark
+  const maxWidth = width - 2 * watermark.margin > 0 ? width - 2 * watermark.margin : width;
+  const maxHeight = height - 2 * watermark.margin > 0 ? height - 2 * watermark.margin : height;
+
+  const markWidth = Math.max(
+    1,
+    Math.floor(Math.min(width * watermark.scale, maxWidth, maxHeight * aspectRatio)),
+  );
+
+  return {
+    width: markWidth,
+    height: Math.max(1, Math.min(maxHeight, Math.round(markWidth / aspectRatio))),
+  };
+}
+
+/**
+ * Place a mark of `markWidth` x `markHeight` on a `width` x `height` image
+ * A single mark sits at the gravity inside the margins; tiles form a centred
+ * grid (up to MAX_WATERMARK_TILES a side) with `margin` between them
+ */
+export function planWatermark(
+  width: number,
+  height: number,
+  markWidth: number,
+  markHeight: number,
+  watermark: ResolvedWatermark,
+): WatermarkPlacement[] {
+  const { margin } = watermark;
+
+  if (watermark.tile) {
+    const fit = (size: number, markSize: number) =>
+      Math.min(MAX_WATERMARK_TILES, Math.max(1, Math.floor((size - margin) / (markSize + margin))));
+    const columns = fit(width, markWidth);
+    const rows = fit(height, markHeight);
+    const left = Math.max(0, Math.round((width - columns * (markWidth + margin) + margin) / 2));
+    const top = Math.max(0, Math.round((height - rows * (markHeight + margin) + margin) / 2));
+
+    return Array.from({ length: rows * columns }, (_, index) => ({
+      left: left + (index % columns) * (markWidth + margin),
+      top: top + Math.floor(index / columns) * (markHeight + margin),
+    }));
+  }
+
+  const focal = getFocalPoint(watermark.position)!;
+
+  return [
+    {
+      left: placeAlong(width, markWidth, margin, focal.x),
+      top: placeAlong(height, markHeight, margin, focal.y),
+    },
+  ];
+}
+
+/**
+ * Offset of a mark along one axis, at `fraction` of the space inside the margins
+ * (the margin is dropped if the mark would not fit inside it)
+ */
+function placeAlong(size: number, markSize: number, margin: number, fraction: number): number {
+  const inset = size - 2 * margin >= markSize ? margin : 0;
+  return inset + Math.round(Math.max(0, size - 2 * inset - markSize) * fraction);
+}
@@ -0,0 +1,233 @@
+/**
+ * POST /api/convert/batch
+ * Converts multiple files with shared options and returns a ZIP archive
+ * containing the results plus a manifest.json of per-file outcomes
+ */
+
+import type { APIRoute } from 'astro';
+import type { BatchManifest, BatchManifestEntry } from '../../../lib/types';
+import { ErrorCode } from '../../../lib/types';
+import { convertImageServer } from '../../../lib/server-converter';
+import {
+  errorResponse,
+  extractConversionOptions,
+  readUploadedFile,
+  validateConversionOptions,
+  validateSourceBounds,
+} from '../../../lib/api-helpers';
+import { createZipStream } from '../../../lib/archive';
+import type { ArchiveEntry } from '../../../lib/archive';
+import {
+  createApiError,
+  generateOutputFilename,
+  logError,
+  makeUniqueFilename,
+  mapWithConcurrency,
+  parseBooleanField,
+} from '../../../lib/utils';
+import { BATCH_CONCURRENCY } from '../../../lib/formats';
+import { getRequestLimits } from '../../../lib/config';
+
+export const POST: APIRoute = async ({ request }) => {
+  try {
+    // Parse multipart form data
+    const formData = await request.formData();
+    const limits = getRequestLimits(request);
+
+    // Extract files
+    const files = formData
+      .getAll('file')
+      .filter((entry): entry is File => typeof entry !== 'string');
+
+    if (files.length === 0) {
+      return errorResponse(
+        'Missing file',
+        'No files were provided in the request',
+        ErrorCode.MISSING_PARAMETER,
+      );
+    }
+
+    if (files.length > limits.maxBatchFiles) {
+      return errorResponse(
+        'Too many files',
+        `A batch may contain at most ${limits.maxBatchFiles} files`,
+        ErrorCode.TOO_MANY_FILES,
+        { fileCount: files.length, maxFiles: limits.maxBatchFiles },
+      );
+    }
+
+    const totalSize = files.reduce((sum, file) => sum + file.size, 0);
+    if (totalSize > limits.maxBatchSize) {
+      return errorResponse(
+        'Batch too large',
+        'Combined file size exceeds the batch limit',
+        ErrorCode.FILE_TOO_LARGE,
+        { totalSize, maxSize: limits.maxBatchSize },
+      );
+    }
+
+    // Shared options for every file
+    const options = extractConversionOptions(formData, limits.defaultQuality);
+    if (!options) {
+      return errorResponse(
+        'Missing output format',
+        'Output format parameter is required',
+        ErrorCode.MISSING_PARAMETER,
+      );
+    }
+
+    // Frame archives are single-file only; nesting them per file is not supported
+    if (options.extractFrames) {
+      return errorResponse(
+        'Invalid animation options',
+        'extractFrames is not supported for batch conversions',
+        ErrorCode.INVALID_ANIMATION_OPTIONS,
+        { extractFrames: true },
+      );
+    }
+
+    // Content decides each file's format; strictFormat rejects mismatched declared types
+    const strictFormat = parseBooleanField(formData.get('strictFormat') as string | null);
+
+    // Convert files; failures are recorded per file instead of aborting
+    const outputs = await mapWithConcurrency(
+      files,
+      BATCH_CONCURRENCY,
+      async (file): Promise<{ entry: BatchManifestEntry; data?: Buffer }> => {
+        const entry: BatchManifestEntry = {
+          filename: file.name,
+          success: false,
+          originalSize: file.size,
+        };
+
+        const upload = await readUploadedFile(file, strictFormat, limits);
+        if (!upload.success) {
+          entry.error = upload.validation.error || 'File validation failed';
+          entry.code = upload.validation.code;
+          return { entry };
+        }
+
+        const warnings = [...upload.warnings];
+
+        const paramsValidation = validateConversionOptions(
+          upload.inputFormat,
+          options,
+          limits,
+        );
+        if (!paramsValidation.valid) {
+          entry.error = paramsValidation.error || 'Invalid parameters';
+          entry.code = paramsValidation.code;
+          return { entry };
+        }
+
+        const boundsValidation = await validateSourceBounds(upload.buffer, options, limits);
+        if (!boundsValidation.valid) {
+          entry.error = boundsValidation.error || 'Invalid parameters';
+          entry.code = boundsValidation.code;
+          return { entry };
+        }
+
+        const result = await convertImageServer(upload.buffer, options, limits);
+        if (!result.success || !result.data) {
+          entry.error = result.error || 'Failed to convert image';
+          entry.code = ErrorCode.CONVERSION_FAILED;
+          return { entry };
+        }
+
+        warnings.push(...(result.warnings || []));
+        if (warnings.length > 0) {
+          entry.warnings = warnings;
+        }
+
+        const data =
+          result.data instanceof Buffer
+            ? result.data
+            : Buffer.from(result.data as ArrayBuffer);
+
+        return { entry, data };
+      },
+    );
+
+    // Name archive entries in upload order so duplicates are numbered predictably
+    const usedNames = new Set<string>(['manifest.json']);
+    const archiveEntries: ArchiveEntry[] = [];
+
+    const manifestEntries = outputs.map(({ entry, data }) => {
+      if (!data) {
+        return entry;
+      }
+
+      const outputFilename = makeUniqueFilename(
+        generateOutputFilename(entry.filename, options.outputFormat),
+        usedNames,
+      );
+      archiveEntries.push({ name: outputFilename, data });
+
+      return {
+        ...entry,
+        success: true,
+        outputFilename,
+        format: options.outputFormat,
+        convertedSize: data.length,
+      };
+    });
+
+    const succeeded = manifestEntries.filter((entry) => entry.success).length;
+    const manifest: BatchManifest = {
+      total: manifestEntries.length,
+      succeeded,
+      failed: manifestEntries.length - succeeded,
+      files: manifestEntries,
+    };
+
+    if (succeeded === 0) {
+      return errorResponse(
+        'Conversion failed',
+        'None of the files could be converted',
+        ErrorCode.CONVERSION_FAILED,
+        { manifest },
+      );
+    }
+
+    archiveEntries.push({
+      name: 'manifest.json',
+      data: JSON.stringify(manifest, null, 2),
+    });
+
+    return new Response(createZipStream(archiveEntries), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': 'attachment; filename="converted.zip"',
+        'X-Batch-Total': manifest.total.toString(),
+        'X-Batch-Succeeded': manifest.succeeded.toString(),
+        'X-Batch-Failed': manifest.failed.toString(),
+      },
+    });
+  } catch (error) {
+    logError(error, { endpoint: '/api/convert/batch' });
+
+    const apiError = createApiError(
+      'Internal Server Error',
+      'An unexpected error occurred during batch conversion',
+      ErrorCode.INTERNAL_ERROR,
+    );
+
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
+
+// OPTIONS handler for CORS preflight
+export const OPTIONS: APIRoute = async () => {
+  return new Response(null, {
+    status: 204,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, X-API-Key',
+    },
+  });
+};
@@ -0,0 +1,162 @@
+/**
+ * POST /api/convert/document
+ * Converts DOCX documents to HTML, Markdown or plain text,
+ * and text or Markdown files to PDF
+ */
+
+import type { APIRoute } from 'astro';
+import type { DocumentFormat, DocumentOutputFormat } from '../../../lib/types';
+import { ErrorCode } from '../../../lib/types';
+import { convertDocx } from '../../../lib/document-converter';
+import {
+  createTextPdfResponse,
+  errorResponse,
+  getWarningHeaders,
+  validationErrorResponse,
+} from '../../../lib/api-helpers';
+import {
+  getDocumentFormatFromExtension,
+  getDocumentFormatFromMime,
+  getMimeType,
+} from '../../../lib/formats';
+import {
+  validateConversion,
+  validateDocumentContent,
+} from '../../../lib/validator';
+import {
+  createApiError,
+  generateOutputFilename,
+  logError,
+} from '../../../lib/utils';
+import { getRequestLimits } from '../../../lib/config';
+
+/**
+ * Output formats supported by this endpoint
+ */
+const DOCUMENT_OUTPUT_FORMATS: DocumentFormat[] = ['html', 'md', 'txt', 'pdf'];
+
+export const POST: APIRoute = async ({ request }) => {
+  try {
+    // Parse multipart form data
+    const formData = await request.formData();
+
+    // Extract file
+    const file = formData.get('file');
+    if (!file || typeof file === 'string') {
+      return errorResponse(
+        'Missing file',
+        'No file was provided in the request',
+        ErrorCode.MISSING_PARAMETER,
+      );
+    }
+
+    // Extract output format
+    const outputFormat = formData.get('outputFormat') as DocumentFormat | null;
+    if (!outputFormat) {
+      return errorResponse(
+        'Missing output format',
+        'Output format parameter is required',
+        ErrorCode.MISSING_PARAMETER,
+      );
+    }
+
+    if (!DOCUMENT_OUTPUT_FORMATS.includes(outputFormat)) {
+      return errorResponse(
+        'Invalid output format',
+        `Output format must be one of: ${DOCUMENT_OUTPUT_FORMATS.join(', ')}`,
+        ErrorCode.UNSUPPORTED_FORMAT,
+        { outputFormat },
+      );
+    }
+
+    // Browsers often send DOCX without a MIME type, so fall back to the extension
+    const inputFormat: DocumentFormat | null =
+      getDocumentFormatFromMime(file.type) || getDocumentFormatFromExtension(file.name);
+    if (!inputFormat) {
+      return errorResponse(
+        'Invalid file type',
+        'Invalid file type',
+        ErrorCode.INVALID_FILE_TYPE,
+        { mimeType: file.type },
+      );
+    }
+
+    const conversionValidation = validateConversion(inputFormat, outputFormat);
+    if (!conversionValidation.valid) {
+      return validationErrorResponse(
+        conversionValidation,
+        'Unsupported conversion',
+        'Unsupported conversion',
+      );
+    }
+
+    const bytes = new Uint8Array(await file.arrayBuffer());
+
+    const contentValidation = validateDocumentContent(bytes, inputFormat, {
+      maxSize: getRequestLimits(request).maxFileSize,
+    });
+    if (!contentValidation.valid) {
+      return validationErrorResponse(
+        contentValidation,
+        'File validation failed',
+        'File validation failed',
+      );
+    }
+
+    if (outputFormat === 'pdf') {
+      return createTextPdfResponse(file, bytes, inputFormat, formData);
+    }
+
+    // Perform conversion (the matrix only allows DOCX to text formats here)
+    const result = await convertDocx(bytes, outputFormat as DocumentOutputFormat, {
+      title: file.name.replace(/\.[^.]+$/, ''),
+    });
+
+    if (!result.success || result.data === undefined) {
+      return errorResponse(
+        'Conversion failed',
+        result.error || 'Failed to convert document',
+        ErrorCode.CONVERSION_FAILED,
+      );
+    }
+
+    const outputFilename = generateOutputFilename(file.name, outputFormat);
+    const convertedSize = result.metadata?.convertedSize || 0;
+
+    return new Response(result.data, {
+      status: 200,
+      headers: {
+        'Content-Type': `${getMimeType(outputFormat)}; charset=utf-8`,
+        'Content-Disposition': `attachment; filename="${outputFilename}"`,
+        'X-Original-Size': file.size.toString(),
+        'X-Converted-Size': convertedSize.toString(),
+        ...getWarningHeaders(inputFormat, result.warnings),
+      },
+    });
+  } catch (error) {
+    logError(error, { endpoint: '/api/convert/document' });
+
+    const apiError = createApiError(
+      'Internal Server Error',
+      'An unexpected error occurred during document conversion',
+      ErrorCode.INTERNAL_ERROR,
+    );
+
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
+
+// OPTIONS handler for CORS preflight
+export const OPTIONS: APIRoute = async () => {
+  return new Response(null, {
+    status: 204,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, X-API-Key',
+    },
+  });
+};
@@ -5,16 +5,22 @@
 
 import type { APIRoute } from 'astro';
 import { getFormatSupport } from '../../lib/formats';
+import { getRequestLimits } from '../../lib/config';
+
+// Rendered per request: limits come from the runtime configuration and API key
+export const prerender = false;
 
 export const GET: APIRoute = async ({ request }) => {
   try {
-    const formatSupport = getFormatSupport();
+    // Limits are the effective ones for the caller's API key
+    const formatSupport = getFormatSupport(getRequestLimits(request));
 
     return new Response(JSON.stringify(formatSupport, null, 2), {
       status: 200,
       headers: {
         'Content-Type': 'application/json',
         'Cache-Control': 'public, max-age=3600', // Cache for 1 hour
+        Vary: 'X-API-Key',
       },
     });
   } catch (error) {
@@ -41,7 +47,7 @@ export const OPTIONS: APIRoute = async () => {
     headers: {
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'GET, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type',
+      'Access-Control-Allow-Headers': 'Content-Type, X-API-Key',
     },
   });
 };
@@ -0,0 +1,90 @@
+/**
+ * POST /api/inspect
+ * Returns detailed image metadata (EXIF, ICC, encoding) without converting
+ */
+
+import type { APIRoute } from 'astro';
+import { ErrorCode } from '../../lib/types';
+import { inspectImage } from '../../lib/server-converter';
+import {
+  errorResponse,
+  jsonResponse,
+  readUploadedFile,
+  validationErrorResponse,
+} from '../../lib/api-helpers';
+import { createApiError, logError, parseBooleanField } from '../../lib/utils';
+import { getRequestLimits } from '../../lib/config';
+
+export const POST: APIRoute = async ({ request }) => {
+  try {
+    // Parse multipart form data
+    const formData = await request.formData();
+
+    // Extract file
+    const file = formData.get('file');
+    if (!file || typeof file === 'string') {
+      return errorResponse(
+        'Missing file',
+        'No file was provided in the request',
+        ErrorCode.MISSING_PARAMETER,
+      );
+    }
+
+    const upload = await readUploadedFile(
+      file,
+      parseBooleanField(formData.get('strictFormat') as string | null),
+      getRequestLimits(request),
+    );
+    if (!upload.success) {
+      return validationErrorResponse(
+        upload.validation,
+        'Validation failed',
+        'File validation failed',
+      );
+    }
+
+    let metadata;
+    try {
+      metadata = await inspectImage(upload.buffer);
+    } catch (error) {
+      return errorResponse(
+        'Inspection failed',
+        'The image metadata could not be read',
+        ErrorCode.CORRUPTED_FILE,
+      );
+    }
+
+    return jsonResponse({
+      filename: file.name,
+      mimeType: file.type,
+      detectedFormat: upload.inputFormat, // From the content, which wins over mimeType
+      warnings: upload.warnings,
+      metadata,
+    });
+  } catch (error) {
+    logError(error, { endpoint: '/api/inspect' });
+
+    const apiError = createApiError(
+      'Internal Server Error',
+      'An unexpected error occurred during inspection',
+      ErrorCode.INTERNAL_ERROR,
+    );
+
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
+
+// OPTIONS handler for CORS preflight
+export const OPTIONS: APIRoute = async () => {
+  return new Response(null, {
+    status: 204,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, X-API-Key',
+    },
+  });
+};
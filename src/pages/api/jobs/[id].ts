@@ -0,0 +1,58 @@
+/**
+ * GET /api/jobs/:id
+ * Returns status of an async conversion job
+ */
+
+import type { APIRoute } from 'astro';
+import { ErrorCode } from '../../../lib/types';
+import { errorResponse, jsonResponse } from '../../../lib/api-helpers';
+import { getConversionJob, toProgress } from '../../../lib/jobs';
+import { isValidJobId } from '../../../lib/job-store';
+import { createApiError, logError } from '../../../lib/utils';
+
+export const prerender = false;
+
+export const GET: APIRoute = async ({ params }) => {
+  try {
+    const jobId = params.id || '';
+
+    const job = isValidJobId(jobId) ? await getConversionJob(jobId) : null;
+    if (!job) {
+      return errorResponse(
+        'Job not found',
+        'No conversion job exists with this ID',
+        ErrorCode.JOB_NOT_FOUND,
+        { jobId },
+      );
+    }
+
+    return jsonResponse(toProgress(job), 200, {
+      'Cache-Control': 'no-cache',
+    });
+  } catch (error) {
+    logError(error, { endpoint: '/api/jobs/:id' });
+
+    const apiError = createApiError(
+      'Internal Server Error',
+      'Failed to retrieve job status',
+      ErrorCode.INTERNAL_ERROR,
+    );
+
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
+
+// OPTIONS handler for CORS preflight
+export const OPTIONS: APIRoute = async () => {
+  return new Response(null, {
+    status: 204,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+};
@@ -0,0 +1,88 @@
+/**
+ * GET /api/jobs/:id/result
+ * Streams the output of a completed conversion job
+ */
+
+import type { APIRoute } from 'astro';
+import { ErrorCode } from '../../../../lib/types';
+import { errorResponse } from '../../../../lib/api-helpers';
+import { getConversionJob, getConversionJobResult } from '../../../../lib/jobs';
+import { isValidJobId } from '../../../../lib/job-store';
+import { createApiError, logError } from '../../../../lib/utils';
+
+export const prerender = false;
+
+export const GET: APIRoute = async ({ params }) => {
+  try {
+    const jobId = params.id || '';
+
+    const job = isValidJobId(jobId) ? await getConversionJob(jobId) : null;
+    if (!job) {
+      return errorResponse(
+        'Job not found',
+        'No conversion job exists with this ID',
+        ErrorCode.JOB_NOT_FOUND,
+        { jobId },
+      );
+    }
+
+    if (job.status !== 'completed') {
+      return errorResponse(
+        'Job not ready',
+        job.status === 'failed'
+          ? job.error || 'Conversion failed'
+          : 'Conversion has not finished yet',
+        job.status === 'failed' ? ErrorCode.CONVERSION_FAILED : ErrorCode.JOB_NOT_READY,
+        { jobId, status: job.status, progress: job.progress },
+      );
+    }
+
+    const stream = await getConversionJobResult(jobId);
+    if (!stream) {
+      return errorResponse(
+        'Job not found',
+        'The result of this job is no longer available',
+        ErrorCode.JOB_NOT_FOUND,
+        { jobId },
+      );
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': job.mimeType,
+      'Content-Disposition': `attachment; filename="${job.filename}"`,
+    };
+
+    if (job.metadata?.convertedSize !== undefined) {
+      headers['Content-Length'] = job.metadata.convertedSize.toString();
+      headers['X-Original-Size'] = job.metadata.originalSize.toString();
+      headers['X-Converted-Size'] = job.metadata.convertedSize.toString();
+    }
+
+    return new Response(stream, { status: 200, headers });
+  } catch (error) {
+    logError(error, { endpoint: '/api/jobs/:id/result' });
+
+    const apiError = createApiError(
+      'Internal Server Error',
+      'Failed to retrieve job result',
+      ErrorCode.INTERNAL_ERROR,
+    );
+
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
+
+// OPTIONS handler for CORS preflight
+export const OPTIONS: APIRoute = async () => {
+  return new Response(null, {
+    status: 204,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+};
@@ -0,0 +1,68 @@
+/**
+ * POST /api/jobs
+ * Enqueue an async conversion job (accepts the same fields as /api/convert)
+ */
+
+import type { APIRoute } from 'astro';
+import { ErrorCode, HttpStatus } from '../../../lib/types';
+import { parseConversionRequest, jsonResponse } from '../../../lib/api-helpers';
+import { enqueueConversionJob, MAX_QUEUED_BYTES, MAX_QUEUED_JOBS } from '../../../lib/jobs';
+import { createApiError, logError } from '../../../lib/utils';
+import { getRequestLimits } from '../../../lib/config';
+
+export const POST: APIRoute = async ({ request }) => {
+  try {
+    // Parse multipart form data
+    const formData = await request.formData();
+
+    // Extract and validate file and parameters
+    const limits = getRequestLimits(request);
+    const parsed = await parseConversionRequest(formData, limits);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const { file, buffer, options, warnings } = parsed.request;
+
+    const progress = await enqueueConversionJob(buffer, file.name, options, warnings, limits);
+    if (!progress) {
+      const apiError = createApiError(
+        'Job queue full',
+        'Too many conversion jobs are waiting. Please try again later',
+        ErrorCode.JOB_QUEUE_FULL,
+        { maxQueuedJobs: MAX_QUEUED_JOBS, maxQueuedBytes: MAX_QUEUED_BYTES },
+      );
+
+      return jsonResponse(apiError, HttpStatus.SERVICE_UNAVAILABLE, { 'Retry-After': '30' });
+    }
+
+    return jsonResponse(progress, HttpStatus.ACCEPTED, {
+      Location: `/api/jobs/${progress.jobId}`,
+    });
+  } catch (error) {
+    logError(error, { endpoint: '/api/jobs' });
+
+    const apiError = createApiError(
+      'Internal Server Error',
+      'An unexpected error occurred while creating the job',
+      ErrorCode.INTERNAL_ERROR,
+    );
+
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
+
+// OPTIONS handler for CORS preflight
+export const OPTIONS: APIRoute = async () => {
+  return new Response(null, {
+    status: 204,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, X-API-Key',
+    },
+  });
+};
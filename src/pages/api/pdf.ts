@@ -0,0 +1,77 @@
+/**
+ * POST /api/pdf
+ * Assembles one or more images into a PDF document (one page per image)
+ */
+
+import type { APIRoute } from 'astro';
+import { ErrorCode } from '../../lib/types';
+import { createPdfResponse, errorResponse } from '../../lib/api-helpers';
+import { createApiError, logError } from '../../lib/utils';
+import { getRequestLimits } from '../../lib/config';
+
+export const POST: APIRoute = async ({ request }) => {
+  try {
+    // Parse multipart form data
+    const formData = await request.formData();
+    const limits = getRequestLimits(request);
+
+    // Extract files (page order follows upload order)
+    const files = formData
+      .getAll('file')
+      .filter((entry): entry is File => typeof entry !== 'string');
+
+    if (files.length === 0) {
+      return errorResponse(
+        'Missing file',
+        'No files were provided in the request',
+        ErrorCode.MISSING_PARAMETER,
+      );
+    }
+
+    if (files.length > limits.maxBatchFiles) {
+      return errorResponse(
+        'Too many files',
+        `A PDF may contain at most ${limits.maxBatchFiles} images`,
+        ErrorCode.TOO_MANY_FILES,
+        { fileCount: files.length, maxFiles: limits.maxBatchFiles },
+      );
+    }
+
+    const totalSize = files.reduce((sum, file) => sum + file.size, 0);
+    if (totalSize > limits.maxBatchSize) {
+      return errorResponse(
+        'Request too large',
+        'Combined file size exceeds the limit',
+        ErrorCode.FILE_TOO_LARGE,
+        { totalSize, maxSize: limits.maxBatchSize },
+      );
+    }
+
+    return await createPdfResponse(files, formData, limits);
+  } catch (error) {
+    logError(error, { endpoint: '/api/pdf' });
+
+    const apiError = createApiError(
+      'Internal Server Error',
+      'An unexpected error occurred while creating the PDF',
+      ErrorCode.INTERNAL_ERROR,
+    );
+
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
+
+// OPTIONS handler for CORS preflight
+export const OPTIONS: APIRoute = async () => {
+  return new Response(null, {
+    status: 204,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, X-API-Key',
+    },
+  });
+};
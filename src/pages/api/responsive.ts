@@ -0,0 +1,112 @@
+/**
+ * POST /api/responsive
+ * Generates a responsive image set (every width in every format) and returns
+ * a ZIP with the variants, a <picture> snippet and a manifest.json
+ */
+
+import type { APIRoute } from 'astro';
+import { ErrorCode } from '../../lib/types';
+import { generateResponsiveSet } from '../../lib/responsive';
+import {
+  errorResponse,
+  extractResponsiveOptions,
+  readUploadedFile,
+  validationErrorResponse,
+} from '../../lib/api-helpers';
+import { validateResponsiveOptions } from '../../lib/validator';
+import { createZipStream } from '../../lib/archive';
+import { createApiError, logError, parseBooleanField, sanitizeFilename } from '../../lib/utils';
+import { getRequestLimits } from '../../lib/config';
+
+export const POST: APIRoute = async ({ request }) => {
+  try {
+    // Parse multipart form data
+    const formData = await request.formData();
+    const limits = getRequestLimits(request);
+
+    // Extract file
+    const file = formData.get('file');
+    if (!file || typeof file === 'string') {
+      return errorResponse(
+        'Missing file',
+        'No file was provided in the request',
+        ErrorCode.MISSING_PARAMETER,
+      );
+    }
+
+    const upload = await readUploadedFile(
+      file,
+      parseBooleanField(formData.get('strictFormat') as string | null),
+      limits,
+    );
+    if (!upload.success) {
+      return validationErrorResponse(
+        upload.validation,
+        'Validation failed',
+        'File validation failed',
+      );
+    }
+
+    const options = extractResponsiveOptions(formData, limits.defaultQuality);
+    const validation = validateResponsiveOptions(
+      upload.inputFormat,
+      options,
+      limits.maxDimension,
+    );
+    if (!validation.valid) {
+      return validationErrorResponse(
+        validation,
+        'Invalid parameters',
+        'Responsive image parameters are invalid',
+      );
+    }
+
+    let responsiveSet;
+    try {
+      responsiveSet = await generateResponsiveSet(upload.buffer, file.name, options, limits);
+    } catch (error) {
+      return errorResponse(
+        'Conversion failed',
+        error instanceof Error ? error.message : 'Failed to generate responsive images',
+        ErrorCode.CONVERSION_FAILED,
+      );
+    }
+
+    const baseName = sanitizeFilename(file.name).replace(/\.[^/.]+$/, '');
+
+    return new Response(createZipStream(responsiveSet.entries), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${baseName}-responsive.zip"`,
+        'X-Original-Size': file.size.toString(),
+        'X-Variant-Count': responsiveSet.manifest.variants.length.toString(),
+      },
+    });
+  } catch (error) {
+    logError(error, { endpoint: '/api/responsive' });
+
+    const apiError = createApiError(
+      'Internal Server Error',
+      'An unexpected error occurred while generating responsive images',
+      ErrorCode.INTERNAL_ERROR,
+    );
+
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
+
+// OPTIONS handler for CORS preflight
+export const OPTIONS: APIRoute = async () => {
+  return new Response(null, {
+    status: 204,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, X-API-Key',
+    },
+  });
+};